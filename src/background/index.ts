@@ -4,11 +4,14 @@
 // ❷  TAB META only (LRU‑trimmed), JSForce connection built on demand
 // ❸  50‑entry LRU for sObject describes
 // ❹  Periodic GC to evict idle tabs
-// ❺  Full router incl. GET/UPDATE/DESCRIBE helpers
+// ❺  Record helpers (related lists, change journal …)
+// ❻  Full router incl. GET/UPDATE/DESCRIBE helpers
 // ----------------------------------------------------------
 
 import { Connection } from "jsforce";
 import Dexie, { Table } from "dexie";
+import { FIELD_HISTORY_LIMIT, MAX_FILE_BYTES } from "../services/limits";
+import { isRecordId } from "../services/record-id";
 // import { compressToUTF16, decompressFromUTF16 } from "lz-string"; // optional
 
 // ────────────────────────────────────────────────────────────
@@ -33,11 +36,24 @@ export interface AuraRequestLog {
 export interface GlobalSObject {
   name: string;
   label: string;
+  keyPrefix: string | null;
+}
+
+export interface RecordChange {
+  id?: number; // auto-increment
+  instanceUrl: string; // sandboxes share Ids with production
+  sObjectName: string;
+  recordId: string;
+  savedAt: number;
+  before: string; // JSON of the touched fields only
+  after: string;
+  revertOf?: number; // journal id this save reverted
 }
 
 class LLensDB extends Dexie {
   public auraRequests!: Table<AuraRequestLog, string>;
   public globalObjects!: Table<GlobalSObject, string>;
+  public recordChanges!: Table<RecordChange, number>;
   constructor() {
     super("LightningLensForSalesforceDB");
     this.version(2).stores({
@@ -48,6 +64,20 @@ class LLensDB extends Dexie {
         "id, tabId, auraActionId, scope, functionName, requestedAt",
       globalObjects: "&name,label",
     });
+    // keyPrefix added → drop the cached rows so they are re-fetched with it
+    this.version(4)
+      .stores({
+        auraRequests:
+          "id, tabId, auraActionId, scope, functionName, requestedAt",
+        globalObjects: "&name,label,keyPrefix",
+      })
+      .upgrade((tx) => tx.table("globalObjects").clear());
+    this.version(5).stores({
+      auraRequests:
+        "id, tabId, auraActionId, scope, functionName, requestedAt",
+      globalObjects: "&name,label,keyPrefix",
+      recordChanges: "++id, [instanceUrl+recordId], savedAt",
+    });
   }
 }
 const db = new LLensDB();
@@ -86,6 +116,37 @@ function lruGet(key: string) {
   return v;
 }
 
+async function describeCached(conn: Connection, name: string) {
+  const cached = lruGet(name);
+  if (cached) return cached;
+  const desc = await conn.sobject(name).describe();
+  lruSet(name, desc);
+  return desc;
+}
+
+/** Tooling API describe, cached under its own key prefix. */
+async function describeToolingCached(conn: Connection, name: string) {
+  const key = `tooling:${name}`;
+  const cached = lruGet(key);
+  if (cached) return cached;
+  const desc = await conn.tooling.describe(name);
+  lruSet(key, desc);
+  return desc;
+}
+
+/** Name and label of every Tooling API object. */
+async function toolingObjects(conn: Connection) {
+  const cached = lruGet("toolingGlobal");
+  if (cached) return cached as { name: string; label: string }[];
+  const res = await conn.tooling.describeGlobal();
+  const objects = (res.sobjects || []).map((s: any) => ({
+    name: s.name as string,
+    label: s.label as string,
+  }));
+  lruSet("toolingGlobal", objects);
+  return objects;
+}
+
 function freshConnection(meta: TabMeta) {
   return new Connection({
     version: "60.0",
@@ -105,6 +166,7 @@ async function ensureGlobalObjects(tabId: number): Promise<number> {
   const objects = (res.sobjects || []).map((s: any) => ({
     name: s.name,
     label: s.label,
+    keyPrefix: s.keyPrefix ?? null,
   }));
   await db.globalObjects.clear();
   await db.globalObjects.bulkAdd(objects);
@@ -226,7 +288,825 @@ async function logComplete(p: any) {
 }
 
 // ────────────────────────────────────────────────────────────
-// 7. ROUTER
+// 7. RECORD HELPERS
+// ────────────────────────────────────────────────────────────
+/** Resolve the sObject of an Id from its 3-character key prefix. */
+async function sObjectForId(tabId: number, recordId: string) {
+  await ensureGlobalObjects(tabId);
+  const hit = await db.globalObjects
+    .where("keyPrefix")
+    .equals(recordId.slice(0, 3))
+    .first();
+  return hit?.name;
+}
+
+/**
+ * Find the record a tab is showing. Lightning record URLs name the object;
+ * Classic (`/<Id>`), console (`#%2F<Id>`) and Visualforce (`?id=<Id>`) URLs
+ * only carry the Id, so every Id-shaped token is tried against key prefixes.
+ */
+async function recordFromUrl(tabId: number, url: string) {
+  const m = url.match(/\/lightning\/r\/([^\/]+)\/([a-zA-Z0-9]{15,18})\/view/);
+  if (m) return { sObjectName: m[1], recordId: m[2] };
+  let decoded = url;
+  try {
+    decoded = decodeURIComponent(url);
+  } catch {
+    // malformed escape – scan the raw URL
+  }
+  const candidates =
+    decoded.match(
+      /(?<=[\/=#])[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?(?=[\/?#&]|$)/g,
+    ) || [];
+  for (const recordId of candidates) {
+    const sObjectName = await sObjectForId(tabId, recordId);
+    if (sObjectName) return { sObjectName, recordId };
+  }
+  return null;
+}
+
+interface ReferenceName {
+  sObjectName: string | null;
+  name: string | null;
+}
+
+/** Label lookup targets: group Ids by key prefix, one name query per object. */
+async function referenceNames(tabId: number, conn: Connection, ids: string[]) {
+  const out: Record<string, ReferenceName> = {};
+  const byPrefix = new Map<string, string[]>();
+  for (const id of new Set(ids)) {
+    const list = byPrefix.get(id.slice(0, 3)) ?? [];
+    list.push(id);
+    byPrefix.set(id.slice(0, 3), list);
+  }
+  for (const group of byPrefix.values()) {
+    const sObjectName = (await sObjectForId(tabId, group[0])) ?? null;
+    group.forEach((id) => (out[id] = { sObjectName, name: null }));
+    if (!sObjectName) continue;
+    try {
+      const desc = await describeCached(conn, sObjectName);
+      const nameField = desc.fields.find((f: any) => f.nameField)?.name;
+      if (!nameField) continue;
+      const res = await conn.query<any>(
+        `SELECT Id, ${nameField} FROM ${sObjectName} WHERE Id IN ('${group.join("','")}')`,
+      );
+      res.records.forEach((r: any) => {
+        const id = group.find((g) => r.Id.startsWith(g)) ?? r.Id;
+        out[id] = { sObjectName, name: r[nameField] ?? null };
+      });
+    } catch {
+      // not queryable – keep the object name only
+    }
+  }
+  return out;
+}
+
+const LOOKUP_LIMIT = 10;
+// WhatId and friends point at dozens of objects; only search the first ones
+const LOOKUP_MAX_TARGETS = 20;
+
+const soslEscape = (term: string) =>
+  term.replace(/[?&|!{}[\]()^~*:\\"'+-]/g, "\\$&");
+const soqlLikeEscape = (term: string) => term.replace(/[\\'%_]/g, "\\$&");
+
+/**
+ * Name search for a lookup field across its referenceTo objects: one SOSL
+ * call for the searchable targets, a LIKE query for the rest (Group, …).
+ */
+async function lookupSearch(
+  conn: Connection,
+  term: string,
+  sObjectNames: string[],
+) {
+  const targets = await Promise.all(
+    sObjectNames.slice(0, LOOKUP_MAX_TARGETS).map(async (name) => {
+      const desc = await describeCached(conn, name);
+      return {
+        name,
+        nameField: desc.fields.find((f: any) => f.nameField)?.name ?? "Id",
+        searchable: !!desc.searchable,
+        queryable: !!desc.queryable,
+      };
+    }),
+  );
+  const hits: { Id: string; name: string; sObjectName: string }[] = [];
+  const searchable = targets.filter((t) => t.searchable);
+  if (searchable.length > 0) {
+    const returning = searchable
+      .map((t) => `${t.name}(Id, ${t.nameField} LIMIT ${LOOKUP_LIMIT})`)
+      .join(", ");
+    const res = await conn.search(
+      `FIND {${soslEscape(term)}*} IN NAME FIELDS RETURNING ${returning}`,
+    );
+    (res.searchRecords || []).forEach((r: any) => {
+      const t = searchable.find((x) => x.name === r.attributes.type);
+      hits.push({
+        Id: r.Id,
+        name: String(r[t?.nameField ?? "Id"] ?? r.Id),
+        sObjectName: r.attributes.type,
+      });
+    });
+  }
+  for (const t of targets.filter((x) => !x.searchable && x.queryable)) {
+    try {
+      const res = await conn.query<any>(
+        `SELECT Id, ${t.nameField} FROM ${t.name}` +
+          ` WHERE ${t.nameField} LIKE '${soqlLikeEscape(term)}%'` +
+          ` ORDER BY ${t.nameField} LIMIT ${LOOKUP_LIMIT}`,
+      );
+      res.records.forEach((r: any) =>
+        hits.push({ Id: r.Id, name: String(r[t.nameField]), sObjectName: t.name }),
+      );
+    } catch {
+      // name field not filterable – skip this target
+    }
+  }
+  return hits;
+}
+
+interface RelatedListInfo {
+  relationshipName: string;
+  childSObject: string;
+  field: string;
+  count: number | null; // null → child object not queryable
+}
+
+const COMPOSITE_BATCH_LIMIT = 25;
+
+/** COUNT() every child relationship, 25 sub-requests per composite call. */
+async function relatedCounts(
+  conn: Connection,
+  sObjectName: string,
+  recordId: string,
+): Promise<RelatedListInfo[]> {
+  const desc = await describeCached(conn, sObjectName);
+  const rels: RelatedListInfo[] = (desc.childRelationships || [])
+    .filter((r: any) => r.relationshipName && r.field)
+    .map((r: any) => ({
+      relationshipName: r.relationshipName,
+      childSObject: r.childSObject,
+      field: r.field,
+      count: null,
+    }));
+  for (let i = 0; i < rels.length; i += COMPOSITE_BATCH_LIMIT) {
+    const chunk = rels.slice(i, i + COMPOSITE_BATCH_LIMIT);
+    const res: any = await conn.requestPost(
+      `/services/data/v${conn.version}/composite/batch`,
+      {
+        batchRequests: chunk.map((r) => ({
+          method: "GET",
+          url:
+            `v${conn.version}/query?q=` +
+            encodeURIComponent(
+              `SELECT COUNT() FROM ${r.childSObject} WHERE ${r.field} = '${recordId}'`,
+            ),
+        })),
+      },
+    );
+    (res.results || []).forEach((r: any, idx: number) => {
+      if (r.statusCode === 200) chunk[idx].count = r.result.totalSize;
+    });
+  }
+  return rels;
+}
+
+/** One page of child records with Id, the name field and LastModifiedDate. */
+async function relatedRecords(
+  conn: Connection,
+  sObjectName: string,
+  field: string,
+  parentId: string,
+  limit = 10,
+  offset = 0,
+) {
+  const desc = await describeCached(conn, sObjectName);
+  const names = new Set<string>(desc.fields.map((f: any) => f.name));
+  if (!names.has(field)) throw new Error(`unknown field ${field}`);
+  const nameField = desc.fields.find((f: any) => f.nameField)?.name;
+  const cols = ["Id"];
+  if (nameField && nameField !== "Id") cols.push(nameField);
+  if (names.has("LastModifiedDate")) cols.push("LastModifiedDate");
+  const order = names.has("LastModifiedDate") ? "LastModifiedDate DESC" : "Id";
+  const res = await conn.query(
+    `SELECT ${cols.join(", ")} FROM ${sObjectName} WHERE ${field} = '${parentId}'` +
+      ` ORDER BY ${order} LIMIT ${Number(limit)} OFFSET ${Number(offset)}`,
+  );
+  return { nameField: nameField ?? null, records: res.records };
+}
+
+const RECYCLE_BIN_LIMIT = 200;
+
+const JOURNAL_LIMIT = 1000;
+
+async function trimJournal() {
+  const cnt = await db.recordChanges.count();
+  if (cnt > JOURNAL_LIMIT) {
+    const olds = await db.recordChanges
+      .orderBy("savedAt")
+      .limit(cnt - JOURNAL_LIMIT)
+      .primaryKeys();
+    await db.recordChanges.bulkDelete(olds);
+  }
+}
+
+/**
+ * Update one record, journaling the server values of the touched fields
+ * right before the write next to the values written.
+ */
+async function journaledUpdate(
+  conn: Connection,
+  instanceUrl: string,
+  sObjectName: string,
+  recordData: { Id: string; [field: string]: any },
+  revertOf?: number,
+) {
+  const { Id, ...after } = recordData;
+  const fields = Object.keys(after);
+  const current: any = await conn
+    .sobject(sObjectName)
+    .retrieve(Id, { fields });
+  const before = Object.fromEntries(fields.map((f) => [f, current[f] ?? null]));
+  const result = await conn.sobject(sObjectName).update(recordData);
+  if (result.success) {
+    await db.recordChanges.add({
+      instanceUrl,
+      sObjectName,
+      recordId: Id,
+      savedAt: Date.now(),
+      before: JSON.stringify(before),
+      after: JSON.stringify(after),
+      revertOf,
+    });
+    trimJournal().catch((e) =>
+      console.error("Trimming the change journal failed", e),
+    );
+  }
+  return result;
+}
+
+// sObject and field API names, checked before they go into a query
+const isApiName = (name: unknown): name is string =>
+  typeof name === "string" && /^[A-Za-z]\w*$/.test(name);
+
+/** History sObject that records field changes of `name`. */
+function historySObjectName(name: string) {
+  // OpportunityHistory is the stage snapshot table, not field history
+  if (name === "Opportunity") return "OpportunityFieldHistory";
+  return name.endsWith("__c")
+    ? name.replace(/__c$/, "__History")
+    : `${name}History`;
+}
+
+/**
+ * Whether field history tracking is turned on for an object, or null when
+ * Tooling can't tell (e.g. no API access to EntityDefinition).
+ */
+async function isHistoryTracked(conn: Connection, sObjectName: string) {
+  // Not cached: tracking is often switched on while the page is open
+  try {
+    const res = await conn.tooling.query<{ IsFieldHistoryTracked: boolean }>(
+      `SELECT IsFieldHistoryTracked FROM EntityDefinition WHERE QualifiedApiName = '${sObjectName}'`,
+    );
+    return res.records[0]?.IsFieldHistoryTracked ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Newest-first field changes of one record. Custom objects only get a
+ * history sObject once tracking is enabled; standard ones always have one,
+ * so their tracking flag is read from EntityDefinition first.
+ */
+async function fieldHistory(
+  conn: Connection,
+  sObjectName: string,
+  recordId: string,
+) {
+  const historyObject = historySObjectName(sObjectName);
+  if ((await isHistoryTracked(conn, sObjectName)) === false)
+    return { enabled: false, historyObject, entries: [] };
+  let desc: any;
+  try {
+    desc = await describeCached(conn, historyObject);
+  } catch (e: any) {
+    if (e?.errorCode === "NOT_FOUND")
+      return { enabled: false, historyObject, entries: [] };
+    throw e;
+  }
+  // ParentId on most tables, AccountId / OpportunityId … on some standard ones
+  const parentField =
+    desc.fields.find(
+      (f: any) =>
+        f.type === "reference" &&
+        f.name !== "CreatedById" &&
+        (f.referenceTo || []).includes(sObjectName),
+    )?.name ?? "ParentId";
+  const res = await conn.query(
+    `SELECT Id, Field, DataType, OldValue, NewValue, CreatedDate, CreatedBy.Name FROM ${historyObject} WHERE ${parentField} = '${recordId}' ORDER BY CreatedDate DESC, Id DESC LIMIT ${FIELD_HISTORY_LIMIT}`,
+  );
+  return { enabled: true, historyObject, entries: res.records };
+}
+
+/** UserRecordAccess of one user (the session user by default) on a record. */
+async function recordAccess(
+  conn: Connection,
+  recordId: string,
+  userId?: string,
+) {
+  let userName: string | null = null;
+  if (!userId) {
+    const identity = await conn.identity();
+    userId = identity.user_id;
+    userName = identity.display_name;
+  }
+  const res = await conn.query(
+    `SELECT RecordId, HasReadAccess, HasEditAccess, HasDeleteAccess, HasTransferAccess, HasAllAccess, MaxAccessLevel FROM UserRecordAccess WHERE UserId = '${userId}' AND RecordId = '${recordId}'`,
+  );
+  return { userId, userName, access: res.records[0] ?? null };
+}
+
+/**
+ * Share rows of a record. No <Object>Share table exists when the org-wide
+ * default is Public Read/Write or the object is controlled by its parent.
+ */
+async function recordShares(
+  conn: Connection,
+  sObjectName: string,
+  recordId: string,
+) {
+  const shareObject = sObjectName.endsWith("__c")
+    ? sObjectName.replace(/__c$/, "__Share")
+    : `${sObjectName}Share`;
+  let desc: any;
+  try {
+    desc = await describeCached(conn, shareObject);
+  } catch (e: any) {
+    if (e?.errorCode === "NOT_FOUND")
+      return { available: false, shareObject, shares: [] };
+    throw e;
+  }
+  const names = new Set<string>(desc.fields.map((f: any) => f.name));
+  // AccessLevel on custom shares; AccountShare has AccountAccessLevel next to
+  // the implied Opportunity/Case/Contact levels
+  const accessField = names.has("AccessLevel")
+    ? "AccessLevel"
+    : `${sObjectName}AccessLevel`;
+  const parentField = names.has("ParentId") ? "ParentId" : `${sObjectName}Id`;
+  const res = await conn.query(
+    `SELECT Id, UserOrGroupId, UserOrGroup.Name, UserOrGroup.Type, ${accessField}, RowCause, LastModifiedDate FROM ${shareObject} WHERE ${parentField} = '${recordId}' ORDER BY RowCause, LastModifiedDate DESC`,
+  );
+  return {
+    available: true,
+    shareObject,
+    shares: res.records.map((r: any) => ({
+      Id: r.Id,
+      userOrGroupId: r.UserOrGroupId,
+      userOrGroupName: r.UserOrGroup?.Name ?? null,
+      userOrGroupType: r.UserOrGroup?.Type ?? null,
+      accessLevel: r[accessField],
+      rowCause: r.RowCause,
+      lastModifiedDate: r.LastModifiedDate,
+    })),
+  };
+}
+
+/** EntityDefinition DurableId: the API name for standard objects, 01I… for custom. */
+async function entityDurableId(conn: Connection, sObjectName: string) {
+  const key = `durableId:${sObjectName}`;
+  const cached = lruGet(key);
+  if (cached) return cached as string;
+  const res = await conn.tooling.query<{ DurableId: string }>(
+    `SELECT DurableId FROM EntityDefinition WHERE QualifiedApiName = '${sObjectName}'`,
+  );
+  const durableId = res.records[0]?.DurableId ?? sObjectName;
+  lruSet(key, durableId);
+  return durableId;
+}
+
+/** Validation rules of an object including their error condition formulas. */
+async function validationRules(conn: Connection, durableId: string) {
+  const key = `validationRules:${durableId}`;
+  const cached = lruGet(key);
+  if (cached) return cached as any[];
+  const res = await conn.tooling.query<{ Id: string }>(
+    `SELECT Id FROM ValidationRule WHERE EntityDefinitionId = '${durableId}'`,
+  );
+  // Metadata is only returned one row at a time, so retrieve each rule
+  const rows: any[] = await Promise.all(
+    res.records.map((r) =>
+      conn.tooling.sobject("ValidationRule").retrieve(r.Id),
+    ),
+  );
+  const rules = rows.map((r) => ({
+    id: r.Id,
+    name: r.ValidationName,
+    active: r.Active,
+    errorMessage: r.ErrorMessage,
+    description: r.Description ?? null,
+    formula: r.Metadata?.errorConditionFormula ?? null,
+  }));
+  lruSet(key, rules);
+  return rules;
+}
+
+/**
+ * Tooling details of one field: the CustomField row for custom fields,
+ * validation rules whose formula mentions it, and Setup deep links.
+ */
+async function fieldDetails(
+  conn: Connection,
+  instanceUrl: string,
+  sObjectName: string,
+  fieldName: string,
+) {
+  const durableId = await entityDurableId(conn, sObjectName);
+  let customField = null;
+  if (fieldName.endsWith("__c")) {
+    // ns__Field__c → NamespacePrefix ns, DeveloperName Field
+    const parts = fieldName.slice(0, -3).split("__");
+    const developerName = parts.pop();
+    const namespace = parts.length ? `'${parts[0]}'` : "null";
+    const res = await conn.tooling.query<any>(
+      `SELECT Id, Description, InlineHelpText, Metadata FROM CustomField WHERE TableEnumOrId = '${durableId}' AND DeveloperName = '${developerName}' AND NamespacePrefix = ${namespace}`,
+    );
+    const row = res.records[0];
+    if (row) {
+      customField = {
+        id: row.Id as string,
+        description: row.Description ?? null,
+        inlineHelpText: row.InlineHelpText ?? null,
+        formula: row.Metadata?.formula ?? null,
+        defaultValue: row.Metadata?.defaultValue ?? null,
+      };
+    }
+  }
+  const mentions = new RegExp(`\\b${fieldName}\\b`, "i");
+  const objectSetup = `${instanceUrl}/lightning/setup/ObjectManager/${durableId}`;
+  const rules = (await validationRules(conn, durableId))
+    .filter((r) => r.formula && mentions.test(r.formula))
+    .map((r) => ({
+      ...r,
+      setupUrl: `${objectSetup}/ValidationRules/${r.id}/view`,
+    }));
+  return {
+    customField,
+    validationRules: rules,
+    // Standard fields are addressed by name, custom ones by their 00N Id
+    setupUrl: `${objectSetup}/FieldsAndRelationships/${customField?.id ?? fieldName}/view`,
+  };
+}
+
+function toBase64(buf: ArrayBuffer) {
+  const bytes = new Uint8Array(buf);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Salesforce Files (latest versions) and legacy Attachments of a record. */
+async function recordFiles(conn: Connection, recordId: string) {
+  const [links, attachments] = await Promise.all([
+    conn.query<any>(
+      `SELECT ContentDocumentId, ShareType, Visibility, ContentDocument.Title, ContentDocument.FileExtension, ContentDocument.ContentSize, ContentDocument.LatestPublishedVersionId, ContentDocument.LatestPublishedVersion.VersionNumber, ContentDocument.Owner.Name, ContentDocument.LastModifiedDate FROM ContentDocumentLink WHERE LinkedEntityId = '${recordId}'`,
+    ),
+    conn.query<any>(
+      `SELECT Id, Name, ContentType, BodyLength, Owner.Name, LastModifiedDate FROM Attachment WHERE ParentId = '${recordId}' ORDER BY LastModifiedDate DESC`,
+    ),
+  ]);
+  return {
+    files: links.records
+      .map((l) => ({
+        contentDocumentId: l.ContentDocumentId,
+        versionId: l.ContentDocument.LatestPublishedVersionId,
+        title: l.ContentDocument.Title,
+        extension: l.ContentDocument.FileExtension,
+        size: l.ContentDocument.ContentSize,
+        versionNumber: l.ContentDocument.LatestPublishedVersion?.VersionNumber,
+        owner: l.ContentDocument.Owner?.Name ?? null,
+        lastModifiedDate: l.ContentDocument.LastModifiedDate,
+        shareType: l.ShareType,
+        visibility: l.Visibility,
+      }))
+      .sort((a, b) => b.lastModifiedDate.localeCompare(a.lastModifiedDate)),
+    attachments: attachments.records.map((a) => ({
+      id: a.Id,
+      name: a.Name,
+      contentType: a.ContentType,
+      size: a.BodyLength,
+      owner: a.Owner?.Name ?? null,
+      lastModifiedDate: a.LastModifiedDate,
+    })),
+  };
+}
+
+/** Raw body of a ContentVersion or Attachment as base64. */
+async function downloadFile(
+  conn: Connection,
+  meta: TabMeta,
+  kind: "ContentVersion" | "Attachment",
+  id: string,
+) {
+  const field = kind === "ContentVersion" ? "VersionData" : "Body";
+  const res = await fetch(
+    `${meta.instanceUrl}/services/data/v${conn.version}/sobjects/${kind}/${id}/${field}`,
+    { headers: { Authorization: `Bearer ${meta.sessionId}` } },
+  );
+  if (!res.ok) throw new Error(`download failed (${res.status})`);
+  const buf = await res.arrayBuffer();
+  if (buf.byteLength > MAX_FILE_BYTES)
+    throw new Error("file too large to download through the extension");
+  return {
+    base64: toBase64(buf),
+    contentType: res.headers.get("Content-Type") ?? "application/octet-stream",
+  };
+}
+
+/** queryAll the most recently deleted rows of one sObject. */
+async function deletedRecords(conn: Connection, sObjectName: string) {
+  const desc = await describeCached(conn, sObjectName);
+  const names = new Set<string>(desc.fields.map((f: any) => f.name));
+  if (!names.has("IsDeleted"))
+    throw new Error(`${sObjectName} has no recycle bin`);
+  const nameField = desc.fields.find((f: any) => f.nameField)?.name;
+  const cols = ["Id", "LastModifiedDate", "LastModifiedBy.Name"];
+  if (nameField && nameField !== "Id") cols.splice(1, 0, nameField);
+  // One row past the limit tells the page whether older rows exist
+  const res = await conn.query(
+    `SELECT ${cols.join(", ")} FROM ${sObjectName} WHERE IsDeleted = true` +
+      ` ORDER BY LastModifiedDate DESC LIMIT ${RECYCLE_BIN_LIMIT + 1}`,
+    { scanAll: true },
+  );
+  return {
+    nameField: nameField ?? null,
+    records: res.records.slice(0, RECYCLE_BIN_LIMIT),
+    hasMore: res.records.length > RECYCLE_BIN_LIMIT,
+  };
+}
+
+const ACTIVITY_LIMIT = 200;
+
+/**
+ * Tasks, Events and EmailMessages of a record merged newest first. queryAll
+ * so archived activities, which Lightning hides, are included. Activities
+ * shared through TaskRelation / EventRelation (Shared Activities, event
+ * invitees) count as well.
+ */
+async function recordActivities(conn: Connection, recordId: string) {
+  const direct = `(WhatId = '${recordId}' OR WhoId = '${recordId}')`;
+  const queryTasks = (where: string) =>
+    conn.query<any>(
+      `SELECT Id, Subject, Status, IsClosed, Priority, ActivityDate, CreatedDate, IsArchived, TaskSubtype, Owner.Name, Who.Name, What.Name FROM Task WHERE ${where} AND IsDeleted = false ORDER BY ActivityDate DESC NULLS LAST LIMIT ${ACTIVITY_LIMIT}`,
+      { scanAll: true },
+    );
+  const queryEvents = (where: string) =>
+    conn.query<any>(
+      `SELECT Id, Subject, StartDateTime, EndDateTime, IsAllDayEvent, Location, IsArchived, Owner.Name, Who.Name, What.Name FROM Event WHERE ${where} AND IsDeleted = false ORDER BY StartDateTime DESC LIMIT ${ACTIVITY_LIMIT}`,
+      { scanAll: true },
+    );
+  // Semi-joins can't be ORed with the direct match, so relations are
+  // separate queries; they only add to the direct matches, never fail them
+  const viaRelation = (q: PromiseLike<any>) =>
+    Promise.resolve(q).then(
+      (r) => r.records as any[],
+      () => [] as any[],
+    );
+  const [directTasks, directEvents, sharedTasks, sharedEvents, emails] =
+    await Promise.all([
+      queryTasks(direct),
+      queryEvents(direct),
+      viaRelation(
+        queryTasks(
+          `Id IN (SELECT TaskId FROM TaskRelation WHERE RelationId = '${recordId}')`,
+        ),
+      ),
+      viaRelation(
+        queryEvents(
+          `Id IN (SELECT EventId FROM EventRelation WHERE RelationId = '${recordId}')`,
+        ),
+      ),
+      // EmailMessage only exists with Enhanced Email or Email-to-Case
+      conn
+        .query<any>(
+          `SELECT Id, ActivityId, Subject, FromAddress, ToAddress, MessageDate, Status, Incoming FROM EmailMessage WHERE RelatedToId = '${recordId}' ORDER BY MessageDate DESC LIMIT ${ACTIVITY_LIMIT}`,
+        )
+        .then(
+          (r) => r.records as any[],
+          (e: any) => {
+            if (e?.errorCode === "INVALID_TYPE") return null;
+            throw e;
+          },
+        ),
+    ]);
+  const uniqueById = (...lists: any[][]) =>
+    Array.from(new Map(lists.flat().map((r) => [r.Id, r])).values());
+  // With Enhanced Email each EmailMessage also has an Email-subtype Task
+  // (its ActivityId); show the message only
+  const emailTaskIds = new Set((emails ?? []).map((m: any) => m.ActivityId));
+  const tasks = uniqueById(directTasks.records, sharedTasks).filter(
+    (t) => !(t.TaskSubtype === "Email" && emailTaskIds.has(t.Id)),
+  );
+  const events = uniqueById(directEvents.records, sharedEvents);
+  const items = [
+    ...tasks.map((t) => ({
+      id: t.Id,
+      kind: "Task",
+      subject: t.Subject,
+      date: t.ActivityDate ?? t.CreatedDate,
+      status: t.Status,
+      isClosed: t.IsClosed,
+      isArchived: t.IsArchived,
+      owner: t.Owner?.Name ?? null,
+      who: t.Who?.Name ?? null,
+      what: t.What?.Name ?? null,
+      detail: t.Priority,
+    })),
+    ...events.map((e) => ({
+      id: e.Id,
+      kind: "Event",
+      subject: e.Subject,
+      date: e.StartDateTime,
+      status: null,
+      isClosed: new Date(e.EndDateTime).getTime() < Date.now(),
+      isArchived: e.IsArchived,
+      owner: e.Owner?.Name ?? null,
+      who: e.Who?.Name ?? null,
+      what: e.What?.Name ?? null,
+      detail: e.IsAllDayEvent ? "All day" : e.Location,
+    })),
+    ...(emails ?? []).map((m: any) => ({
+      id: m.Id,
+      kind: "EmailMessage",
+      subject: m.Subject,
+      date: m.MessageDate,
+      status: m.Incoming ? "Received" : "Sent",
+      isClosed: true,
+      isArchived: false,
+      owner: m.FromAddress,
+      who: m.ToAddress,
+      what: null,
+      detail: null,
+    })),
+  ];
+  return items.sort((a, b) =>
+    String(b.date ?? "").localeCompare(String(a.date ?? "")),
+  );
+}
+
+/** Status value the org uses to close tasks. */
+async function closedTaskStatus(conn: Connection) {
+  const cached = lruGet("closedTaskStatus");
+  if (cached) return cached as string;
+  const res = await conn.query<{ ApiName: string }>(
+    "SELECT ApiName FROM TaskStatus WHERE IsClosed = true ORDER BY SortOrder LIMIT 1",
+  );
+  const status = res.records[0]?.ApiName ?? "Completed";
+  lruSet("closedTaskStatus", status);
+  return status;
+}
+
+const COLLECTION_CHUNK = 200;
+
+interface RowResult {
+  id: string;
+  success: boolean;
+  errors: string[];
+}
+
+// Collections results come back in request order; failed rows carry no id
+function toRowResults(ids: string[], res: any[]): RowResult[] {
+  return ids.map((id, idx) => ({
+    id,
+    success: res[idx]?.success === true,
+    errors: (res[idx]?.errors || []).map((e: any) =>
+      e.fields?.length ? `${e.message} (${e.fields.join(", ")})` : e.message,
+    ),
+  }));
+}
+
+/** SOAP undelete, with its results shaped like the collection calls'. */
+async function undeleteRecords(conn: Connection, ids: string[]) {
+  const res: any[] = await conn.soap.undelete(ids);
+  // The SOAP response is XML: single errors are not wrapped in arrays and
+  // booleans may still be strings
+  const asList = (v: any) => (v === undefined || v === null ? [] : [v].flat());
+  return toRowResults(
+    ids,
+    res.map((r) => ({
+      success: r.success === true || r.success === "true",
+      errors: asList(r.errors).map((e: any) => ({
+        message: e.message,
+        fields: asList(e.fields),
+      })),
+    })),
+  );
+}
+
+/**
+ * Update many records through sObject Collections, 200 per call, without
+ * all-or-none so one bad row does not roll back its neighbours. Like
+ * journaledUpdate, the touched fields are read right before each call and
+ * every row that saved is journaled.
+ */
+async function saveRecords(
+  conn: Connection,
+  instanceUrl: string,
+  sObjectName: string,
+  records: { Id: string; [field: string]: any }[],
+) {
+  const out: RowResult[] = [];
+  for (let i = 0; i < records.length; i += COLLECTION_CHUNK) {
+    const chunk = records.slice(i, i + COLLECTION_CHUNK);
+    const fields = Array.from(
+      new Set(chunk.flatMap((r) => Object.keys(r).filter((f) => f !== "Id"))),
+    );
+    const current: any[] = await conn.request(
+      `/services/data/v${conn.version}/composite/sobjects/${sObjectName}` +
+        `?ids=${chunk.map((r) => r.Id).join(",")}&fields=${["Id", ...fields].join(",")}`,
+    );
+    const res: any[] = await conn.requestPatch(
+      `/services/data/v${conn.version}/composite/sobjects`,
+      {
+        allOrNone: false,
+        records: chunk.map((r) => ({ attributes: { type: sObjectName }, ...r })),
+      },
+    );
+    const rows = toRowResults(chunk.map((r) => r.Id), res);
+    const savedAt = Date.now();
+    const entries = chunk.flatMap(({ Id, ...after }, idx) => {
+      if (!rows[idx].success) return [];
+      // Missing rows come back as null; those saves failed anyway
+      const server = current[idx] ?? {};
+      const before = Object.fromEntries(
+        Object.keys(after).map((f) => [f, server[f] ?? null]),
+      );
+      return [
+        {
+          instanceUrl,
+          sObjectName,
+          recordId: Id,
+          savedAt,
+          before: JSON.stringify(before),
+          after: JSON.stringify(after),
+        },
+      ];
+    });
+    if (entries.length > 0) {
+      await db.recordChanges.bulkAdd(entries);
+      trimJournal().catch((e) =>
+        console.error("Trimming the change journal failed", e),
+      );
+    }
+    out.push(...rows);
+  }
+  return out;
+}
+
+// Compound fields repeat their components; base64 bodies are too big to back up
+const SKIPPED_BACKUP_TYPES = new Set(["address", "location", "base64"]);
+
+/**
+ * Every field of the given records through sObject Collections retrieve.
+ * POST keeps long field lists out of the URL.
+ */
+async function retrieveRecords(
+  conn: Connection,
+  sObjectName: string,
+  ids: string[],
+) {
+  const desc = await describeCached(conn, sObjectName);
+  const fields: string[] = desc.fields
+    .filter((f: any) => !SKIPPED_BACKUP_TYPES.has(f.type))
+    .map((f: any) => f.name);
+  const out: any[] = [];
+  for (let i = 0; i < ids.length; i += COLLECTION_CHUNK) {
+    const chunk = ids.slice(i, i + COLLECTION_CHUNK);
+    const res: any[] = await conn.requestPost(
+      `/services/data/v${conn.version}/composite/sobjects/${sObjectName}`,
+      { ids: chunk, fields },
+    );
+    out.push(...res.filter((r) => r !== null));
+  }
+  return out;
+}
+
+/** Delete records of any object, 200 Ids per sObject Collections call. */
+async function deleteRecords(conn: Connection, ids: string[]) {
+  const out: RowResult[] = [];
+  for (let i = 0; i < ids.length; i += COLLECTION_CHUNK) {
+    const chunk = ids.slice(i, i + COLLECTION_CHUNK);
+    const res: any[] = await conn.requestDelete(
+      `/services/data/v${conn.version}/composite/sobjects?allOrNone=false&ids=${chunk.join(",")}`,
+    );
+    out.push(...toRowResults(chunk, res));
+  }
+  return out;
+}
+
+// ────────────────────────────────────────────────────────────
+// 8. ROUTER
 // ────────────────────────────────────────────────────────────
 chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
   const tabId = sender.tab?.id;
@@ -249,32 +1129,292 @@ chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
         const meta = tabMeta.get(tabId);
         if (!meta) throw new Error("no session");
         const conn = freshConnection(meta);
+        if (payload?.recordId) {
+          if (!isRecordId(payload.recordId)) throw new Error("invalid Id");
+          const name =
+            payload.sObjectName ||
+            (await sObjectForId(tabId, payload.recordId));
+          if (!name)
+            throw new Error(`unknown key prefix ${payload.recordId.slice(0, 3)}`);
+          return conn.sobject(name).retrieve(payload.recordId);
+        }
         const tab = await chrome.tabs.get(tabId);
-        const m = tab.url?.match(
-          /\/lightning\/r\/([^\/]+)\/([a-zA-Z0-9]{15,18})\/view/,
-        );
-        if (!m) throw new Error("not record page");
-        return conn.sobject(m[1]).retrieve(m[2]);
+        const found = tab.url && (await recordFromUrl(tabId, tab.url));
+        if (!found) throw new Error("not record page");
+        return conn.sobject(found.sObjectName).retrieve(found.recordId);
+      }
+      case "GET_REFERENCE_NAMES": {
+        const ids: string[] = (payload.ids || []).filter(isRecordId);
+        if (ids.length === 0) return {};
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return referenceNames(tabId, conn, ids);
+      }
+      case "SEARCH_LOOKUP": {
+        const term = String(payload.term || "").trim();
+        const targets: string[] = payload.sObjectNames || [];
+        if (term.length < 2 || targets.length === 0) return [];
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return lookupSearch(conn, term, targets);
       }
       case "UPDATE_RECORD": {
         const meta = tabMeta.get(tabId);
         if (!meta) throw new Error("no session");
         const conn = freshConnection(meta);
-        if (!payload.sObjectName || !payload.recordData?.Id)
+        if (!payload.sObjectName || !isRecordId(payload.recordData?.Id))
+          throw new Error("bad payload");
+        return journaledUpdate(
+          conn,
+          meta.instanceUrl,
+          payload.sObjectName,
+          payload.recordData,
+        );
+      }
+      case "SAVE_RECORDS": {
+        const records: any[] = payload.records || [];
+        if (
+          !payload.sObjectName ||
+          records.length === 0 ||
+          !records.every((r) => isRecordId(r?.Id))
+        )
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return saveRecords(conn, meta.instanceUrl, payload.sObjectName, records);
+      }
+      case "LIST_RECORD_CHANGES": {
+        if (!isRecordId(payload.recordId)) throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const rows = await db.recordChanges
+          .where("[instanceUrl+recordId]")
+          .equals([meta.instanceUrl, payload.recordId])
+          .reverse()
+          .sortBy("savedAt");
+        return rows.map((r) => ({
+          ...r,
+          before: JSON.parse(r.before),
+          after: JSON.parse(r.after),
+        }));
+      }
+      case "REVERT_RECORD_CHANGE": {
+        const entry = await db.recordChanges.get(payload.id);
+        if (!entry) throw new Error("journal entry not found");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        if (entry.instanceUrl !== meta.instanceUrl)
+          throw new Error("journal entry belongs to another org");
+        const conn = freshConnection(meta);
+        return journaledUpdate(
+          conn,
+          meta.instanceUrl,
+          entry.sObjectName,
+          { Id: entry.recordId, ...JSON.parse(entry.before) },
+          entry.id,
+        );
+      }
+      case "CREATE_RECORD": {
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        if (!payload.sObjectName || !payload.recordData)
+          throw new Error("bad payload");
+        return conn.sobject(payload.sObjectName).create(payload.recordData);
+      }
+      case "DELETE_RECORD": {
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        if (!payload.sObjectName || !isRecordId(payload.recordId))
           throw new Error("bad payload");
-        return conn.sobject(payload.sObjectName).update(payload.recordData);
+        return conn.sobject(payload.sObjectName).destroy(payload.recordId);
+      }
+      case "RETRIEVE_RECORDS": {
+        const ids: string[] = payload.recordIds || [];
+        if (
+          !isApiName(payload.sObjectName) ||
+          ids.length === 0 ||
+          !ids.every(isRecordId)
+        )
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return retrieveRecords(conn, payload.sObjectName, ids);
+      }
+      case "DELETE_RECORDS": {
+        const ids: string[] = payload.recordIds || [];
+        if (ids.length === 0 || !ids.every(isRecordId))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return deleteRecords(conn, ids);
+      }
+      case "UNDELETE_RECORD": {
+        const ids: string[] = payload.recordIds || [];
+        if (ids.length === 0 || !ids.every(isRecordId))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return undeleteRecords(conn, ids);
+      }
+      case "LIST_DELETED_RECORDS": {
+        if (!payload.sObjectName) throw new Error("sObjectName required");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return deletedRecords(conn, payload.sObjectName);
+      }
+      case "GET_FIELD_HISTORY": {
+        const { sObjectName, recordId } = payload;
+        if (!isApiName(sObjectName) || !isRecordId(recordId))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return fieldHistory(conn, sObjectName, recordId);
+      }
+      case "GET_RECORD_ACCESS": {
+        const { recordId, userId } = payload;
+        if (!isRecordId(recordId) || (userId && !isRecordId(userId)))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return recordAccess(conn, recordId, userId);
+      }
+      case "GET_RECORD_SHARES": {
+        const { sObjectName, recordId } = payload;
+        if (!isApiName(sObjectName) || !isRecordId(recordId))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return recordShares(conn, sObjectName, recordId);
+      }
+      case "GET_FIELD_DETAILS": {
+        const { sObjectName, fieldName } = payload;
+        if (!isApiName(sObjectName) || !isApiName(fieldName))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return fieldDetails(conn, meta.instanceUrl, sObjectName, fieldName);
+      }
+      case "LIST_RECORD_FILES": {
+        if (!isRecordId(payload.recordId)) throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return recordFiles(conn, payload.recordId);
+      }
+      case "DOWNLOAD_FILE": {
+        const { kind, id } = payload;
+        if (!["ContentVersion", "Attachment"].includes(kind) || !isRecordId(id))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return downloadFile(conn, meta, kind, id);
+      }
+      case "UPLOAD_FILE": {
+        // New version of contentDocumentId, or a new file on recordId
+        const { contentDocumentId, recordId, fileName, base64, reason } =
+          payload;
+        if (!fileName || !base64) throw new Error("bad payload");
+        if (!isRecordId(contentDocumentId) && !isRecordId(recordId))
+          throw new Error("bad payload");
+        if ((base64.length * 3) / 4 > MAX_FILE_BYTES)
+          throw new Error("file too large to upload through the extension");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return conn.sobject("ContentVersion").create({
+          PathOnClient: fileName,
+          Title: fileName.replace(/\.[^.]+$/, ""),
+          VersionData: base64,
+          ...(isRecordId(contentDocumentId)
+            ? { ContentDocumentId: contentDocumentId, ReasonForChange: reason }
+            : { FirstPublishLocationId: recordId }),
+        });
+      }
+      case "LIST_ACTIVITIES": {
+        if (!isRecordId(payload.recordId)) throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return recordActivities(conn, payload.recordId);
+      }
+      case "CLOSE_TASK": {
+        if (!isRecordId(payload.taskId)) throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return journaledUpdate(conn, meta.instanceUrl, "Task", {
+          Id: payload.taskId,
+          Status: await closedTaskStatus(conn),
+        });
       }
       case "DESCRIBE_SOBJECT": {
         const name = payload.sObjectName;
         if (!name) throw new Error("sObjectName required");
-        const cached = lruGet(name);
+        const cached = lruGet(payload.tooling ? `tooling:${name}` : name);
         if (cached) return cached;
         const meta = tabMeta.get(tabId);
         if (!meta) throw new Error("no session");
         const conn = freshConnection(meta);
-        const desc = await conn.sobject(name).describe();
-        lruSet(name, desc);
-        return desc;
+        return payload.tooling
+          ? describeToolingCached(conn, name)
+          : describeCached(conn, name);
+      }
+      case "GET_RELATED_COUNTS": {
+        const { sObjectName, recordId } = payload;
+        if (!sObjectName || !isRecordId(recordId))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return relatedCounts(conn, sObjectName, recordId);
+      }
+      case "GET_RELATED_RECORDS": {
+        const { sObjectName, field, parentId, limit, offset } = payload;
+        if (!sObjectName || !field || !isRecordId(parentId))
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return relatedRecords(conn, sObjectName, field, parentId, limit, offset);
+      }
+      case "GET_PICKLIST_VALUES": {
+        const { sObjectName, recordTypeId } = payload;
+        if (!sObjectName || !isRecordId(recordTypeId))
+          throw new Error("bad payload");
+        const key = `picklists:${sObjectName}:${recordTypeId}`;
+        const cached = lruGet(key);
+        if (cached) return cached;
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        const res: any = await conn.request(
+          `/services/data/v${conn.version}/ui-api/object-info/${sObjectName}/picklist-values/${recordTypeId}`,
+        );
+        // field → values available for this record type
+        const values = Object.fromEntries(
+          Object.entries(res.picklistFieldValues || {}).map(
+            ([field, info]: [string, any]) => [
+              field,
+              (info.values || []).map((v: any) => v.value),
+            ],
+          ),
+        );
+        lruSet(key, values);
+        return values;
       }
       case "LOAD_GLOBAL_OBJECTS": {
         const count = await ensureGlobalObjects(tabId);
@@ -290,13 +1430,48 @@ chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
           .limit(25)
           .toArray();
       }
+      case "SEARCH_TOOLING_OBJECTS": {
+        const prefix = (payload.prefix || "").toLowerCase();
+        if (!prefix) return [];
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return (await toolingObjects(conn))
+          .filter((o) => o.name.toLowerCase().startsWith(prefix))
+          .slice(0, 25);
+      }
       case "RUN_SOQL": {
         const q = payload.query;
         if (!q) throw new Error("query required");
         const meta = tabMeta.get(tabId);
         if (!meta) throw new Error("no session");
         const conn = freshConnection(meta);
-        return conn.query(q);
+        return payload.tooling ? conn.tooling.query(q) : conn.query(q);
+      }
+
+      case "RUN_SOSL": {
+        const search = (payload.search || "").trim();
+        if (!/^FIND\s/i.test(search)) throw new Error("SOSL must start with FIND");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return conn.search(search);
+      }
+      case "QUERY_MORE": {
+        const next = payload.nextRecordsUrl;
+        if (
+          typeof next !== "string" ||
+          !/^(\/services\/data\/v[\d.]+\/(tooling\/)?query\/)?[\w-]+$/.test(
+            next,
+          )
+        )
+          throw new Error("bad payload");
+        const meta = tabMeta.get(tabId);
+        if (!meta) throw new Error("no session");
+        const conn = freshConnection(meta);
+        return payload.tooling
+          ? conn.tooling.queryMore(next)
+          : conn.queryMore(next);
       }
 
       case "GET_LWC_DEBUG_STATUS": {
@@ -0,0 +1,287 @@
+import React from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Spinner,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Tooltip,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { client, RecordAccess, RecordShares } from "../../services/client";
+import LookupPicker from "./lookup-picker";
+
+interface AccessPanelProps {
+  sObjectName: string;
+  recordId: string;
+  onOpenRecord: (sObjectName: string | undefined, recordId: string) => void;
+}
+
+const USER_FIELD = {
+  name: "UserId",
+  label: "Check access for user",
+  referenceTo: ["User"],
+  nillable: true,
+};
+
+const ACCESS_FLAGS: {
+  key: keyof NonNullable<RecordAccess["access"]>;
+  label: string;
+  hint?: string;
+}[] = [
+  { key: "HasReadAccess", label: "Read" },
+  { key: "HasEditAccess", label: "Edit" },
+  { key: "HasDeleteAccess", label: "Delete" },
+  { key: "HasTransferAccess", label: "Transfer" },
+  {
+    key: "HasAllAccess",
+    label: "Share",
+    hint: "Sharing needs full access: owner, someone above the owner in the role hierarchy, or Modify All",
+  },
+];
+
+const ErrorBox = ({ message }: { message: string }) => (
+  <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+    <div className="flex items-start gap-2">
+      <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+      <div>{message}</div>
+    </div>
+  </div>
+);
+
+// Effective access of one user plus the share rows behind it
+export default function AccessPanel({
+  sObjectName,
+  recordId,
+  onOpenRecord,
+}: AccessPanelProps) {
+  // null → the session user
+  const [userId, setUserId] = React.useState<string | null>(null);
+  const [access, setAccess] = React.useState<RecordAccess | null>(null);
+  const [accessError, setAccessError] = React.useState<string | null>(null);
+  const [isAccessLoading, setIsAccessLoading] = React.useState(true);
+  const [shares, setShares] = React.useState<RecordShares | null>(null);
+  const [sharesError, setSharesError] = React.useState<string | null>(null);
+  const [isSharesLoading, setIsSharesLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsAccessLoading(true);
+    setAccessError(null);
+    client
+      .getRecordAccess(recordId, userId ?? undefined)
+      .then((res) => !cancelled && setAccess(res))
+      .catch(
+        (err) =>
+          !cancelled &&
+          setAccessError(
+            err instanceof Error ? err.message : "Failed to load access",
+          ),
+      )
+      .finally(() => !cancelled && setIsAccessLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [recordId, userId]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsSharesLoading(true);
+    setSharesError(null);
+    client
+      .getRecordShares(sObjectName, recordId)
+      .then((res) => !cancelled && setShares(res))
+      .catch(
+        (err) =>
+          !cancelled &&
+          setSharesError(
+            err instanceof Error ? err.message : "Failed to load share rows",
+          ),
+      )
+      .finally(() => !cancelled && setIsSharesLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [sObjectName, recordId]);
+
+  // Name for users picked from the share table rather than searched
+  const pickedShare = shares?.shares.find((s) => s.userOrGroupId === userId);
+  const pickedFromShares = pickedShare
+    ? { sObjectName: "User", name: pickedShare.userOrGroupName }
+    : undefined;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Card shadow="none" className="border dark:border-default-100">
+        <CardBody className="p-3 gap-3">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <div className="sm:w-80">
+              <LookupPicker
+                name={USER_FIELD.name}
+                fieldMeta={USER_FIELD}
+                value={userId}
+                referenceName={pickedFromShares}
+                onChange={(_, value) => setUserId(value || null)}
+                onOpenReference={onOpenRecord}
+              />
+            </div>
+            {userId && (
+              <Button
+                size="sm"
+                variant="light"
+                onPress={() => setUserId(null)}
+                startContent={<Icon icon="lucide:user" />}
+              >
+                Back to me
+              </Button>
+            )}
+          </div>
+
+          {isAccessLoading ? (
+            <Spinner size="sm" className="self-start" />
+          ) : accessError ? (
+            <ErrorBox message={accessError} />
+          ) : !access?.access ? (
+            <p className="text-sm text-default-500">
+              No access information returned for this user and record.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <div className="text-sm">
+                <span className="text-default-500">
+                  {access.userName ?? access.userId}
+                </span>
+                <span className="text-default-400"> · max access </span>
+                <span className="font-medium">
+                  {access.access.MaxAccessLevel}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {ACCESS_FLAGS.map((flag) => {
+                  const granted = access.access![flag.key] === true;
+                  const chip = (
+                    <Chip
+                      key={flag.key}
+                      size="sm"
+                      variant="flat"
+                      color={granted ? "success" : "danger"}
+                      startContent={
+                        <Icon
+                          icon={granted ? "lucide:check" : "lucide:x"}
+                          width={12}
+                          className="ml-1"
+                        />
+                      }
+                    >
+                      {flag.label}
+                    </Chip>
+                  );
+                  return flag.hint ? (
+                    <Tooltip key={flag.key} content={flag.hint}>
+                      {chip}
+                    </Tooltip>
+                  ) : (
+                    chip
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </CardBody>
+      </Card>
+
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <Icon icon="lucide:share-2" className="text-default-500" />
+          <span className="text-sm font-semibold">Share rows</span>
+          {shares?.available && (
+            <span className="font-mono text-xs text-default-400">
+              {shares.shareObject}
+            </span>
+          )}
+        </div>
+        {isSharesLoading ? (
+          <Spinner size="sm" />
+        ) : sharesError ? (
+          <ErrorBox message={sharesError} />
+        ) : !shares?.available ? (
+          <p className="text-sm text-default-500">
+            {sObjectName} has no {shares?.shareObject} table. Its org-wide
+            default is Public Read/Write, or access is controlled by the parent
+            record.
+          </p>
+        ) : (
+          <Table
+            removeWrapper
+            aria-label="Share rows"
+            classNames={{
+              th: "bg-default-50 dark:bg-default-100/20 text-default-600 text-xs",
+              td: "py-2 text-xs",
+            }}
+          >
+            <TableHeader>
+              <TableColumn key="who">USER OR GROUP</TableColumn>
+              <TableColumn key="access">ACCESS</TableColumn>
+              <TableColumn key="cause">ROW CAUSE</TableColumn>
+              <TableColumn key="modified">LAST MODIFIED</TableColumn>
+            </TableHeader>
+            <TableBody emptyContent="No share rows">
+              {shares.shares.map((share) => (
+                <TableRow key={share.Id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Icon
+                        icon={
+                          share.userOrGroupType === "User"
+                            ? "lucide:user"
+                            : "lucide:users"
+                        }
+                        className="text-default-400"
+                      />
+                      <div className="flex flex-col">
+                        <span>
+                          {share.userOrGroupName ?? share.userOrGroupId}
+                        </span>
+                        <span className="font-mono text-default-400">
+                          {share.userOrGroupId}
+                        </span>
+                      </div>
+                      {share.userOrGroupType === "User" && (
+                        <Tooltip content="Check this user's access">
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            className="h-6 w-6 min-w-0"
+                            onPress={() => setUserId(share.userOrGroupId)}
+                          >
+                            <Icon icon="lucide:shield-question" width={14} />
+                          </Button>
+                        </Tooltip>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{share.accessLevel}</TableCell>
+                  <TableCell>
+                    <Chip size="sm" variant="flat">
+                      {share.rowCause}
+                    </Chip>
+                  </TableCell>
+                  <TableCell>
+                    {new Date(share.lastModifiedDate).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import React from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Spinner,
+  Tooltip,
+  addToast,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { client, ActivityItem } from "../../services/client";
+
+interface ActivityTimelineProps {
+  recordId: string;
+  searchTerm: string;
+  onOpenRecord: (sObjectName: string, recordId: string) => void;
+}
+
+const KINDS: {
+  kind: ActivityItem["kind"];
+  label: string;
+  icon: string;
+}[] = [
+  { kind: "Task", label: "Tasks", icon: "lucide:check-square" },
+  { kind: "Event", label: "Events", icon: "lucide:calendar" },
+  { kind: "EmailMessage", label: "Emails", icon: "lucide:mail" },
+];
+
+const iconOf = (kind: ActivityItem["kind"]) =>
+  KINDS.find((k) => k.kind === kind)!.icon;
+
+// Tasks, Events and emails of the record, archived ones included
+export default function ActivityTimeline({
+  recordId,
+  searchTerm,
+  onOpenRecord,
+}: ActivityTimelineProps) {
+  const [items, setItems] = React.useState<ActivityItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [hiddenKinds, setHiddenKinds] = React.useState<Set<string>>(
+    new Set(),
+  );
+  const [closingId, setClosingId] = React.useState<string | null>(null);
+
+  const fetchActivities = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems(await client.listActivities(recordId));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load activities",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recordId]);
+
+  React.useEffect(() => {
+    fetchActivities();
+  }, [fetchActivities]);
+
+  const toggleKind = (kind: string) =>
+    setHiddenKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+
+  const handleCloseTask = async (item: ActivityItem) => {
+    setClosingId(item.id);
+    try {
+      await client.closeTask(item.id);
+      addToast({
+        title: "Task closed",
+        description: item.subject ?? item.id,
+        color: "success",
+        icon: <Icon icon="lucide:check-circle" />,
+      });
+      fetchActivities();
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description:
+          err instanceof Error ? err.message : "Failed to close task",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setClosingId(null);
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const visible = items.filter(
+    (item) =>
+      !hiddenKinds.has(item.kind) &&
+      (!term ||
+        [item.subject, item.owner, item.who, item.what].some((v) =>
+          v?.toLowerCase().includes(term),
+        )),
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" color="primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+        <div className="flex items-start gap-2">
+          <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+          <div>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        {KINDS.map(({ kind, label, icon }) => (
+          <Chip
+            key={kind}
+            size="sm"
+            variant={hiddenKinds.has(kind) ? "bordered" : "flat"}
+            color={hiddenKinds.has(kind) ? "default" : "primary"}
+            className="cursor-pointer"
+            startContent={<Icon icon={icon} width={12} className="ml-1" />}
+            onClick={() => toggleKind(kind)}
+          >
+            {label} ({items.filter((i) => i.kind === kind).length})
+          </Chip>
+        ))}
+        <span className="ml-auto text-xs text-default-400">
+          {items.filter((i) => i.isArchived).length} archived
+        </span>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <Icon
+            icon="lucide:calendar-x"
+            className="text-4xl text-default-300 mb-2"
+          />
+          <p className="text-default-500">No activities</p>
+        </div>
+      ) : (
+        visible.map((item) => (
+          <Card
+            key={item.id}
+            shadow="none"
+            className="border dark:border-default-100"
+          >
+            <CardBody className="p-3 flex-row items-start gap-3">
+              <Icon
+                icon={iconOf(item.kind)}
+                className={`mt-0.5 text-lg ${item.isClosed ? "text-default-400" : "text-primary"}`}
+              />
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span
+                    className={`text-sm font-medium ${item.kind === "Task" && item.isClosed ? "line-through text-default-500" : ""}`}
+                  >
+                    {item.subject || "(no subject)"}
+                  </span>
+                  {item.status && (
+                    <Chip size="sm" variant="flat">
+                      {item.status}
+                    </Chip>
+                  )}
+                  {item.isArchived && (
+                    <Chip size="sm" variant="flat" color="warning">
+                      archived
+                    </Chip>
+                  )}
+                </div>
+                <div className="text-xs text-default-500 flex flex-wrap gap-x-3">
+                  {item.date && (
+                    <span>
+                      {/^\d{4}-\d{2}-\d{2}$/.test(item.date)
+                        ? new Date(`${item.date}T00:00:00`).toLocaleDateString()
+                        : new Date(item.date).toLocaleString()}
+                    </span>
+                  )}
+                  {item.owner && (
+                    <span>
+                      {item.kind === "EmailMessage" ? "From" : "Owner"}:{" "}
+                      {item.owner}
+                    </span>
+                  )}
+                  {item.who && (
+                    <span>
+                      {item.kind === "EmailMessage" ? "To" : "Name"}:{" "}
+                      {item.who}
+                    </span>
+                  )}
+                  {item.what && <span>Related to: {item.what}</span>}
+                  {item.detail && <span>{item.detail}</span>}
+                </div>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {item.kind === "Task" && !item.isClosed && (
+                  <Tooltip content="Close task">
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      variant="light"
+                      isLoading={closingId === item.id}
+                      isDisabled={closingId !== null}
+                      onPress={() => handleCloseTask(item)}
+                    >
+                      <Icon icon="lucide:check" width={16} />
+                    </Button>
+                  </Tooltip>
+                )}
+                <Tooltip content="Open in editor">
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    onPress={() => onOpenRecord(item.kind, item.id)}
+                  >
+                    <Icon icon="lucide:arrow-up-right" width={16} />
+                  </Button>
+                </Tooltip>
+              </div>
+            </CardBody>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
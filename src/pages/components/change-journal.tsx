@@ -0,0 +1,228 @@
+import React from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Spinner,
+  Tooltip,
+  addToast,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { client, RecordChangeEntry } from "../../services/client";
+
+interface ChangeJournalProps {
+  // Current server copy; reloading it refreshes the journal
+  record: any;
+  fieldsMap: Map<string, any>;
+  searchTerm: string;
+  // Return false to abort, e.g. when unsaved edits would be lost
+  onBeforeRevert: () => boolean;
+  onReverted: () => void;
+}
+
+const formatValue = (v: any) =>
+  v === null || v === undefined || v === "" ? (
+    <span className="text-default-400 italic">null</span>
+  ) : (
+    <span className="break-all">{String(v)}</span>
+  );
+
+const NUMERIC_TYPES = new Set(["int", "double", "currency", "percent", "long"]);
+
+/**
+ * Compare a journaled value with the server's by field type: the API spells
+ * the same datetime as …000+0000 where the editor wrote …000Z, and 5 as 5.0.
+ */
+const sameValue = (a: any, b: any, type?: string) => {
+  const isEmpty = (v: any) => v === null || v === undefined || v === "";
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+  if (type === "date" || type === "datetime") {
+    const [ta, tb] = [Date.parse(a), Date.parse(b)];
+    if (!Number.isNaN(ta) && !Number.isNaN(tb)) return ta === tb;
+  } else if (type && NUMERIC_TYPES.has(type)) {
+    const [na, nb] = [Number(a), Number(b)];
+    if (!Number.isNaN(na) && !Number.isNaN(nb)) return na === nb;
+  }
+  return String(a) === String(b);
+};
+
+// Saves made through the extension for this record, newest first
+export default function ChangeJournal({
+  record,
+  fieldsMap,
+  searchTerm,
+  onBeforeRevert,
+  onReverted,
+}: ChangeJournalProps) {
+  const [entries, setEntries] = React.useState<RecordChangeEntry[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [revertingId, setRevertingId] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    client
+      .listRecordChanges(record.Id)
+      .then((res) => !cancelled && setEntries(res))
+      .catch(
+        (err) =>
+          !cancelled &&
+          setError(
+            err instanceof Error ? err.message : "Failed to load journal",
+          ),
+      )
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [record]);
+
+  const handleRevert = async (entry: RecordChangeEntry, drifted: string[]) => {
+    // Later values of these fields are lost; make that an explicit choice
+    if (
+      drifted.length > 0 &&
+      !window.confirm(
+        `These fields changed after this save and will be overwritten:\n\n${drifted.join(", ")}\n\nRevert anyway?`,
+      )
+    )
+      return;
+    if (!onBeforeRevert()) return;
+    setRevertingId(entry.id);
+    try {
+      await client.revertRecordChange(entry.id);
+      addToast({
+        title: "Reverted",
+        description: `${Object.keys(entry.before).length} field(s) restored to their previous values`,
+        color: "success",
+        icon: <Icon icon="lucide:undo-2" />,
+      });
+      onReverted();
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to revert",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const matches = (key: string) =>
+    !term ||
+    key.toLowerCase().includes(term) ||
+    (fieldsMap.get(key)?.label ?? "").toLowerCase().includes(term);
+  const visible = entries.filter((e) => Object.keys(e.after).some(matches));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" color="primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+        <div className="flex items-start gap-2">
+          <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+          <div>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (visible.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Icon
+          icon="lucide:history"
+          className="text-4xl text-default-300 mb-2"
+        />
+        <p className="text-default-500">
+          {entries.length === 0
+            ? "No saves made through Lightning Lens for this record yet"
+            : "No journaled changes match your search"}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {visible.map((entry) => {
+        const fields = Object.keys(entry.after);
+        // Fields someone changed again after this save; reverting clobbers them
+        const drifted = fields.filter(
+          (f) =>
+            !sameValue(record[f], entry.after[f], fieldsMap.get(f)?.type),
+        );
+        return (
+          <Card
+            key={entry.id}
+            shadow="none"
+            className="border dark:border-default-100"
+          >
+            <CardBody className="p-3 gap-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <Icon icon="lucide:save" className="text-default-400" />
+                  <span className="font-medium">
+                    {new Date(entry.savedAt).toLocaleString()}
+                  </span>
+                  <Chip size="sm" variant="flat">
+                    {fields.length} field{fields.length === 1 ? "" : "s"}
+                  </Chip>
+                  {entry.revertOf !== undefined && (
+                    <Chip size="sm" variant="flat" color="secondary">
+                      revert
+                    </Chip>
+                  )}
+                </div>
+                <Tooltip
+                  isDisabled={drifted.length === 0}
+                  content={`Changed since this save: ${drifted.join(", ")}`}
+                >
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    color={drifted.length ? "warning" : "default"}
+                    isLoading={revertingId === entry.id}
+                    isDisabled={revertingId !== null}
+                    startContent={<Icon icon="lucide:undo-2" />}
+                    onPress={() => handleRevert(entry, drifted)}
+                  >
+                    Revert
+                  </Button>
+                </Tooltip>
+              </div>
+              <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_auto_minmax(0,1fr)] gap-x-3 gap-y-1 text-xs items-start">
+                {fields.map((f) => (
+                  <React.Fragment key={f}>
+                    <span
+                      className={`font-mono ${drifted.includes(f) ? "text-warning" : "text-default-500"}`}
+                    >
+                      {f}
+                    </span>
+                    {formatValue(entry.before[f])}
+                    <Icon
+                      icon="lucide:arrow-right"
+                      className="text-default-400 mt-0.5"
+                    />
+                    {formatValue(entry.after[f])}
+                  </React.Fragment>
+                ))}
+              </div>
+            </CardBody>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React from "react";
+import { Checkbox, Input } from "@heroui/react";
+import { NUMBER_TYPES, toFieldValue } from "./field-input";
+
+interface EditableCellProps {
+  value: any;
+  fieldMeta: any;
+  isDirty: boolean;
+  // Read-only rendering of the value
+  children: React.ReactNode;
+  onCommit: (value: any) => void;
+}
+
+/** Why typed text can't be saved to the field, or null when it can. */
+export function cellValueError(text: string, fieldMeta: any) {
+  if (text.trim() === "") return null;
+  if (NUMBER_TYPES.has(fieldMeta?.type) && Number.isNaN(Number(text)))
+    return `${fieldMeta.name} expects a number`;
+  return null;
+}
+
+/** Turn typed text into the value the API expects for the field type. */
+export function parseCellValue(text: string, fieldMeta: any) {
+  if (text === "") return null;
+  if (fieldMeta?.type === "boolean") return text.toLowerCase() === "true";
+  return toFieldValue(fieldMeta, text);
+}
+
+// Results table cell that switches to an input on double click
+export default function EditableCell({
+  value,
+  fieldMeta,
+  isDirty,
+  children,
+  onCommit,
+}: EditableCellProps) {
+  const [draft, setDraft] = React.useState<string | null>(null);
+
+  const dirtyClass = isDirty
+    ? "bg-warning-50 dark:bg-warning-900/20 rounded-small"
+    : "";
+
+  if (fieldMeta.type === "boolean") {
+    return (
+      <div className={dirtyClass}>
+        <Checkbox
+          size="sm"
+          isSelected={value === true}
+          onValueChange={onCommit}
+          aria-label={fieldMeta.name}
+        />
+      </div>
+    );
+  }
+
+  if (draft === null) {
+    return (
+      <div
+        className={`cursor-text min-h-5 ${dirtyClass}`}
+        title="Double-click to edit"
+        onDoubleClick={() =>
+          setDraft(value === null || value === undefined ? "" : String(value))
+        }
+      >
+        {children}
+      </div>
+    );
+  }
+
+  const invalid = cellValueError(draft, fieldMeta);
+
+  // Invalid text stays in the input until fixed or dropped with Escape
+  const commit = () => {
+    if (invalid) return;
+    onCommit(parseCellValue(draft, fieldMeta));
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      size="sm"
+      variant="bordered"
+      autoFocus
+      value={draft}
+      onValueChange={setDraft}
+      onBlur={commit}
+      isInvalid={!!invalid}
+      errorMessage={invalid}
+      onKeyDown={(e) => {
+        // Keep the table's keyboard navigation out of the input
+        e.stopPropagation();
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setDraft(null);
+      }}
+      aria-label={fieldMeta.name}
+      classNames={{ input: "font-mono text-xs" }}
+    />
+  );
+}
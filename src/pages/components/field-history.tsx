@@ -0,0 +1,212 @@
+import React from "react";
+import { Chip, Spinner } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import {
+  client,
+  FieldHistory as FieldHistoryResult,
+  FieldHistoryEntry,
+} from "../../services/client";
+import { FIELD_HISTORY_LIMIT } from "../../services/limits";
+
+interface FieldHistoryProps {
+  sObjectName: string;
+  objectLabel: string;
+  record: any;
+  fieldsMap: Map<string, any>;
+  searchTerm: string;
+}
+
+// Pseudo fields Salesforce writes into the Field column
+const EVENT_LABELS: Record<string, string> = {
+  created: "Record created",
+  locked: "Record locked",
+  unlocked: "Record unlocked",
+  ownerAccepted: "Owner accepted",
+  ownerAssignment: "Owner assigned",
+};
+
+// Lookup changes are stored twice, once as Ids (DataType EntityId) and once
+// as names; keep the readable row when both exist
+const dropIdDuplicates = (entries: FieldHistoryEntry[]) => {
+  const named = new Set(
+    entries
+      .filter((e) => e.DataType !== "EntityId")
+      .map((e) => `${e.Field}|${e.CreatedDate}`),
+  );
+  return entries.filter(
+    (e) =>
+      e.DataType !== "EntityId" || !named.has(`${e.Field}|${e.CreatedDate}`),
+  );
+};
+
+const formatValue = (v: any) =>
+  v === null || v === undefined || v === "" ? (
+    <span className="text-default-400 italic">blank</span>
+  ) : (
+    <span className="break-all">{String(v)}</span>
+  );
+
+// Tracked field changes of the record, newest first, grouped by day
+export default function FieldHistory({
+  sObjectName,
+  objectLabel,
+  record,
+  fieldsMap,
+  searchTerm,
+}: FieldHistoryProps) {
+  const [history, setHistory] = React.useState<FieldHistoryResult | null>(
+    null,
+  );
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    client
+      .getFieldHistory(sObjectName, record.Id)
+      .then((res) => !cancelled && setHistory(res))
+      .catch(
+        (err) =>
+          !cancelled &&
+          setError(
+            err instanceof Error ? err.message : "Failed to load field history",
+          ),
+      )
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [sObjectName, record]);
+
+  const labelOf = (field: string) =>
+    fieldsMap.get(field)?.label ?? EVENT_LABELS[field] ?? field;
+
+  const days = React.useMemo(() => {
+    if (!history) return [];
+    const term = searchTerm.toLowerCase();
+    const groups = new Map<string, FieldHistoryEntry[]>();
+    dropIdDuplicates(history.entries)
+      .filter(
+        (e) =>
+          !term ||
+          e.Field.toLowerCase().includes(term) ||
+          labelOf(e.Field).toLowerCase().includes(term),
+      )
+      .forEach((e) => {
+        const day = new Date(e.CreatedDate).toLocaleDateString();
+        groups.set(day, [...(groups.get(day) ?? []), e]);
+      });
+    return Array.from(groups.entries());
+  }, [history, searchTerm, fieldsMap]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" color="primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+        <div className="flex items-start gap-2">
+          <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+          <div>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!history?.enabled) {
+    return (
+      <div className="p-4 border border-warning-200 bg-warning-50 dark:bg-warning-900/20 dark:border-warning-700 rounded-medium text-sm">
+        <div className="flex items-start gap-2">
+          <Icon
+            icon="lucide:history"
+            className="mt-0.5 text-warning text-lg"
+          />
+          <div className="space-y-1">
+            <p className="font-medium">
+              Field history tracking is not enabled for {objectLabel}
+            </p>
+            <p className="text-default-600">
+              <span className="font-mono">{history?.historyObject}</span>{" "}
+              records nothing until tracking is turned on. Enable it in Setup → Object Manager →{" "}
+              {objectLabel} → Fields &amp; Relationships → Set History Tracking.
+              Changes made before tracking is turned on are not recorded.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (days.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Icon
+          icon="lucide:history"
+          className="text-4xl text-default-300 mb-2"
+        />
+        <p className="text-default-500 text-center max-w-md">
+          {history.entries.length === 0
+            ? "No tracked changes for this record. Only fields selected for history tracking are recorded."
+            : "No history entries match your search"}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {history.entries.length >= FIELD_HISTORY_LIMIT && (
+        <Chip size="sm" variant="flat" color="warning">
+          Showing the {FIELD_HISTORY_LIMIT} most recent changes
+        </Chip>
+      )}
+      {days.map(([day, entries]) => (
+        <div key={day}>
+          <div className="text-xs font-semibold text-default-500 mb-2">
+            {day}
+          </div>
+          <ol className="border-l-2 border-default-200 ml-1.5 space-y-3">
+            {entries.map((e) => (
+              <li key={e.Id} className="relative pl-4">
+                <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-primary" />
+                <div className="flex flex-wrap items-center gap-x-2 text-xs text-default-500">
+                  <span>{new Date(e.CreatedDate).toLocaleTimeString()}</span>
+                  <span>·</span>
+                  <span className="flex items-center gap-1">
+                    <Icon icon="lucide:user" width={12} />
+                    {e.CreatedBy?.Name ?? "Unknown user"}
+                  </span>
+                </div>
+                <div className="text-sm">
+                  <span className="font-medium">{labelOf(e.Field)}</span>
+                  {fieldsMap.has(e.Field) && (
+                    <span className="font-mono text-xs text-default-400 ml-2">
+                      {e.Field}
+                    </span>
+                  )}
+                </div>
+                {!EVENT_LABELS[e.Field] && (
+                  <div className="flex items-start gap-2 text-xs mt-0.5">
+                    {formatValue(e.OldValue)}
+                    <Icon
+                      icon="lucide:arrow-right"
+                      className="text-default-400 mt-0.5 shrink-0"
+                    />
+                    {formatValue(e.NewValue)}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,474 @@
+import React from "react";
+import {
+  Button,
+  Input,
+  Textarea,
+  Switch,
+  Select,
+  SelectItem,
+  DatePicker,
+  Tooltip,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { parseDate, parseDateTime } from "@internationalized/date";
+import { client, ReferenceName } from "../../services/client";
+import LookupPicker from "./lookup-picker";
+
+// Used for the picklist lookup when a record has no RecordTypeId
+const MASTER_RECORD_TYPE_ID = "012000000000000AAA";
+
+export const NUMBER_TYPES = new Set([
+  "int",
+  "double",
+  "currency",
+  "percent",
+  "long",
+]);
+
+/**
+ * Record value for text typed into a field's input. Number fields hold
+ * numbers (or null when cleared) so the form, the JSON view and the save
+ * all see the same value.
+ */
+export const toFieldValue = (fieldMeta: any, text: string) => {
+  if (!NUMBER_TYPES.has(fieldMeta?.type)) return text;
+  if (text.trim() === "") return null;
+  const n = Number(text);
+  return Number.isNaN(n) ? text : n;
+};
+
+interface NumberFieldInputProps {
+  fieldMeta: any;
+  name: string;
+  value: any;
+  isDisabled: boolean;
+  onChange: (value: any) => void;
+}
+
+// Keeps its own text so "1.0" survives on the way to "1.05"; only the parsed
+// number goes into the record
+function NumberFieldInput({
+  fieldMeta,
+  name,
+  value,
+  isDisabled,
+  onChange,
+}: NumberFieldInputProps) {
+  const [text, setText] = React.useState(
+    value === null || value === undefined ? "" : String(value),
+  );
+
+  // Follow changes made elsewhere (reload, JSON view, compare)
+  React.useEffect(() => {
+    setText((prev) =>
+      toFieldValue(fieldMeta, prev) === (value === "" ? null : (value ?? null))
+        ? prev
+        : value === null || value === undefined
+          ? ""
+          : String(value),
+    );
+  }, [value, fieldMeta]);
+
+  return (
+    <Input
+      type="number"
+      label={fieldMeta.label}
+      name={name}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(toFieldValue(fieldMeta, e.target.value));
+      }}
+      isDisabled={isDisabled}
+      variant="bordered"
+      size="sm"
+      startContent={
+        fieldMeta.type === "currency" ? (
+          <div className="pointer-events-none flex items-center">
+            <span className="text-default-400 text-sm">$</span>
+          </div>
+        ) : null
+      }
+    />
+  );
+}
+
+/**
+ * `validFor` is a base64 bitmap over the controlling field's values: bit N
+ * (most significant bit first) set → valid when the controller's Nth
+ * picklist value is selected. Checkbox controllers use 0 = false, 1 = true.
+ */
+export const isValidFor = (validFor: string, index: number) => {
+  const bytes = atob(validFor);
+  const byte = index >> 3;
+  return (
+    byte < bytes.length && (bytes.charCodeAt(byte) & (0x80 >> (index % 8))) !== 0
+  );
+};
+
+/** Active values allowed by the record type and the controlling field. */
+export const availablePicklistValues = (
+  fieldMeta: any,
+  record: any,
+  fieldsMap: Map<string, any>,
+  recordTypeValues?: Record<string, string[]>,
+) => {
+  let options = (fieldMeta.picklistValues || []).filter((o: any) => o.active);
+  const allowed = recordTypeValues?.[fieldMeta.name];
+  if (allowed) options = options.filter((o: any) => allowed.includes(o.value));
+
+  const controller = fieldMeta.dependentPicklist
+    ? fieldsMap.get(fieldMeta.controllerName)
+    : undefined;
+  if (controller) {
+    const controllerValue = record[controller.name];
+    const index =
+      controller.type === "boolean"
+        ? Number(!!controllerValue)
+        : (controller.picklistValues || []).findIndex(
+            (o: any) => o.value === controllerValue,
+          );
+    options = options.filter(
+      (o: any) => index >= 0 && o.validFor && isValidFor(o.validFor, index),
+    );
+  }
+  return options;
+};
+
+/**
+ * After `changed` is edited, null out (or trim, for multi-selects) dependent
+ * picklist values that its new value no longer allows – recursively, since
+ * dependents can control further picklists.
+ */
+export const clearInvalidDependents = (
+  record: any,
+  changed: string,
+  fieldsMap: Map<string, any>,
+  recordTypeValues?: Record<string, string[]>,
+) => {
+  let next = record;
+  const queue = [changed];
+  while (queue.length > 0) {
+    const controllerName = queue.shift();
+    for (const field of fieldsMap.values()) {
+      if (field.controllerName !== controllerName || next[field.name] == null)
+        continue;
+      const allowed = new Set(
+        availablePicklistValues(field, next, fieldsMap, recordTypeValues).map(
+          (o: any) => o.value,
+        ),
+      );
+      const kept =
+        String(next[field.name])
+          .split(";")
+          .filter((v) => allowed.has(v))
+          .join(";") || null;
+      if (kept !== next[field.name]) {
+        next = { ...next, [field.name]: kept };
+        queue.push(field.name);
+      }
+    }
+  }
+  return next;
+};
+
+/** Picklist values per field for a record type (UI API), if available. */
+export const useRecordTypePicklists = (
+  sObjectName: string,
+  recordTypeId?: string | null,
+) => {
+  const [values, setValues] = React.useState<Record<string, string[]>>();
+
+  React.useEffect(() => {
+    if (!sObjectName) {
+      setValues(undefined);
+      return;
+    }
+    let cancelled = false;
+    client
+      .getPicklistValues(sObjectName, recordTypeId || MASTER_RECORD_TYPE_ID)
+      .then((res) => !cancelled && setValues(res))
+      // Not supported by the UI API → fall back to the describe values
+      .catch(() => !cancelled && setValues(undefined));
+    return () => {
+      cancelled = true;
+    };
+  }, [sObjectName, recordTypeId]);
+
+  return values;
+};
+
+// Keep values the editor would otherwise hide visible, flagged as invalid
+const withCurrentValues = (options: any[], current: string[]) => {
+  const known = new Set(options.map((o) => o.value));
+  return [
+    ...options,
+    ...current
+      .filter((v) => !known.has(v))
+      .map((v) => ({ value: v, label: `${v} (not allowed)`, invalid: true })),
+  ];
+};
+
+export interface FieldRenderOptions {
+  // Insert form: gate on createable instead of updateable
+  isCreate?: boolean;
+  referenceNames?: Record<string, ReferenceName>;
+  onOpenReference?: (sObjectName: string | undefined, recordId: string) => void;
+  // Pre-filtered picklist values (see availablePicklistValues)
+  picklistValues?: any[];
+}
+
+// Helper function to render the correct input type based on field metadata
+export const renderField = (
+  key: string,
+  value: any,
+  fieldMeta: any,
+  handleChange: (name: string, value: any) => void,
+  options: FieldRenderOptions = {},
+) => {
+  const {
+    isCreate = false,
+    referenceNames,
+    onOpenReference,
+    picklistValues = fieldMeta.picklistValues,
+  } = options;
+  const isDisabled =
+    !fieldMeta || !(isCreate ? fieldMeta.createable : fieldMeta.updateable);
+
+  switch (fieldMeta.type) {
+    case "picklist":
+      return (
+        <Select
+          label={fieldMeta.label}
+          name={key}
+          selectedKeys={value === null ? [] : [String(value)]}
+          onSelectionChange={(keys) => {
+            const selectedValue = Array.from(keys)[0] || null;
+            handleChange(key, selectedValue);
+          }}
+          isDisabled={isDisabled}
+          className="w-full"
+          variant="bordered"
+          size="sm"
+          aria-label={fieldMeta.label}
+          placeholder={fieldMeta.nillable ? "-- None --" : "Select a value"}
+          selectionMode="single"
+          disallowEmptySelection={!fieldMeta.nillable}
+          classNames={{
+            trigger: "min-h-unit-10",
+          }}
+        >
+          {withCurrentValues(picklistValues, value == null ? [] : [value]).map(
+            (option: any) => (
+              <SelectItem
+                key={option.value}
+                className={option.invalid ? "text-danger" : undefined}
+              >
+                {option.label}
+              </SelectItem>
+            ),
+          )}
+        </Select>
+      );
+
+    case "multipicklist":
+      const selectedValues = value ? value.split(";") : [];
+      return (
+        <Select
+          label={fieldMeta.label}
+          name={key}
+          selectionMode="multiple"
+          selectedKeys={new Set(selectedValues)}
+          onSelectionChange={(keys) => {
+            const values = Array.from(keys);
+            handleChange(key, values.join(";"));
+          }}
+          isDisabled={isDisabled}
+          className="w-full"
+          variant="bordered"
+          size="sm"
+          aria-label={fieldMeta.label}
+        >
+          {withCurrentValues(picklistValues, selectedValues).map(
+            (option: any) => (
+              <SelectItem
+                key={option.value}
+                className={option.invalid ? "text-danger" : undefined}
+              >
+                {option.label}
+              </SelectItem>
+            ),
+          )}
+        </Select>
+      );
+
+    case "textarea":
+      return (
+        <Textarea
+          label={fieldMeta.label}
+          name={key}
+          value={value === null ? "" : String(value)}
+          onValueChange={(val) => handleChange(key, val)}
+          isDisabled={isDisabled}
+          className="min-h-[80px]"
+          variant="bordered"
+          size="sm"
+        />
+      );
+
+    case "boolean":
+      return (
+        <div className="flex items-center h-full pt-4">
+          <Switch
+            id={key}
+            name={key}
+            isSelected={!!value}
+            onValueChange={(checked) => handleChange(key, checked)}
+            isDisabled={isDisabled}
+            size="sm"
+          >
+            {value ? "Yes" : "No"}
+          </Switch>
+        </div>
+      );
+
+    case "date":
+      let dateValue = null;
+      try {
+        if (value) {
+          // Try to parse the date string into a CalendarDate
+          dateValue = parseDate(String(value).split("T")[0]);
+        }
+      } catch (e) {
+        console.error("Error parsing date:", e);
+      }
+
+      return (
+        <DatePicker
+          label={fieldMeta.label}
+          value={dateValue}
+          onChange={(date) => {
+            // Convert CalendarDate to ISO string for storage
+            const dateString = date ? date.toString() : null;
+            handleChange(key, dateString);
+          }}
+          isDisabled={isDisabled}
+          className="w-full"
+          variant="bordered"
+          size="sm"
+        />
+      );
+
+    case "datetime":
+      let dateTimeValue = null;
+      try {
+        if (value) {
+          // Try to parse the datetime string into a CalendarDateTime
+          const dateStr = new Date(value).toISOString();
+          const datePart = dateStr.split("T")[0];
+          const timePart = dateStr.split("T")[1].substring(0, 5); // HH:MM
+          dateTimeValue = parseDateTime(`${datePart}T${timePart}`);
+        }
+      } catch (e) {
+        console.error("Error parsing datetime:", e);
+      }
+
+      return (
+        <DatePicker
+          label={fieldMeta.label}
+          value={dateTimeValue}
+          onChange={(date) => {
+            // Convert CalendarDateTime to ISO string for storage
+            const dateString = date ? date.toString() : null;
+            handleChange(key, dateString);
+          }}
+          isDisabled={isDisabled}
+          className="w-full"
+          variant="bordered"
+          size="sm"
+          granularity="minute"
+        />
+      );
+
+    case "reference": {
+      const ref = value ? referenceNames?.[value] : undefined;
+      if (!isDisabled) {
+        return (
+          <LookupPicker
+            name={key}
+            fieldMeta={fieldMeta}
+            value={value ?? null}
+            referenceName={ref}
+            onChange={handleChange}
+            onOpenReference={onOpenReference}
+          />
+        );
+      }
+      return (
+        <Input
+          type="text"
+          label={fieldMeta.label}
+          name={key}
+          value={value == null ? "" : String(value)}
+          // read-only rather than disabled so the open link stays clickable
+          isReadOnly
+          placeholder="Reference Field (read-only)"
+          description={
+            ref ? [ref.sObjectName, ref.name].filter(Boolean).join(" · ") : null
+          }
+          variant="bordered"
+          size="sm"
+          startContent={
+            <Icon icon="lucide:link" className="text-default-400 text-sm" />
+          }
+          endContent={
+            value && onOpenReference ? (
+              <Tooltip content={`Open ${ref?.name ?? value}`}>
+                <Button
+                  isIconOnly
+                  size="sm"
+                  variant="light"
+                  className="h-6 w-6 min-w-0"
+                  onPress={() =>
+                    onOpenReference(ref?.sObjectName ?? undefined, String(value))
+                  }
+                >
+                  <Icon icon="lucide:arrow-up-right" width={14} />
+                </Button>
+              </Tooltip>
+            ) : null
+          }
+        />
+      );
+    }
+
+    case "int":
+    case "double":
+    case "currency":
+    case "percent":
+    case "long":
+      return (
+        <NumberFieldInput
+          fieldMeta={fieldMeta}
+          name={key}
+          value={value}
+          isDisabled={isDisabled}
+          onChange={(v) => handleChange(key, v)}
+        />
+      );
+
+    default:
+      return (
+        <Input
+          type="text"
+          label={fieldMeta.label}
+          name={key}
+          value={value === null ? "" : String(value)}
+          onChange={(e) => handleChange(key, e.target.value)}
+          isDisabled={isDisabled}
+          variant="bordered"
+          size="sm"
+        />
+      );
+  }
+};
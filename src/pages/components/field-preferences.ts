@@ -0,0 +1,93 @@
+import React from "react";
+
+// Per-object field list preferences, kept in chrome.storage.local
+interface FieldPreferences {
+  pinned: string[];
+  // Layout name → field API names in display order
+  layouts: Record<string, string[]>;
+  activeLayout: string | null;
+}
+
+const EMPTY: FieldPreferences = { pinned: [], layouts: {}, activeLayout: null };
+
+const storageKey = (sObjectName: string) => `fieldPrefs:${sObjectName}`;
+
+export function useFieldPreferences(sObjectName: string) {
+  const [prefs, setPrefs] = React.useState<FieldPreferences>(EMPTY);
+  const currentObject = React.useRef(sObjectName);
+  const pendingWrite = React.useRef<Promise<void>>(Promise.resolve());
+
+  React.useEffect(() => {
+    currentObject.current = sObjectName;
+    setPrefs(EMPTY);
+    if (!sObjectName) return;
+    let cancelled = false;
+    const key = storageKey(sObjectName);
+    chrome.storage.local.get(key).then((res) => {
+      if (!cancelled && res[key]) setPrefs({ ...EMPTY, ...res[key] });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sObjectName]);
+
+  // Each update starts from what storage holds, one at a time, so a change
+  // made before the initial load finished cannot wipe stored pins and layouts
+  const update = React.useCallback(
+    (fn: (prev: FieldPreferences) => FieldPreferences) => {
+      if (!sObjectName) return;
+      const key = storageKey(sObjectName);
+      pendingWrite.current = pendingWrite.current
+        .then(async () => {
+          const res = await chrome.storage.local.get(key);
+          const next = fn({ ...EMPTY, ...res[key] });
+          await chrome.storage.local.set({ [key]: next });
+          if (currentObject.current === sObjectName) setPrefs(next);
+        })
+        .catch((err) => console.error("Saving field preferences failed", err));
+    },
+    [sObjectName],
+  );
+
+  const togglePin = (field: string) =>
+    update((p) => ({
+      ...p,
+      pinned: p.pinned.includes(field)
+        ? p.pinned.filter((f) => f !== field)
+        : [...p.pinned, field],
+    }));
+
+  const saveLayout = (name: string, fields: string[]) =>
+    update((p) => ({
+      ...p,
+      layouts: { ...p.layouts, [name]: fields },
+      activeLayout: name,
+    }));
+
+  const deleteLayout = (name: string) =>
+    update((p) => {
+      const { [name]: _, ...layouts } = p.layouts;
+      return {
+        ...p,
+        layouts,
+        activeLayout: p.activeLayout === name ? null : p.activeLayout,
+      };
+    });
+
+  const setActiveLayout = (name: string | null) =>
+    update((p) => ({ ...p, activeLayout: name }));
+
+  return {
+    pinned: prefs.pinned,
+    layouts: prefs.layouts,
+    // Ignore a remembered layout that no longer exists
+    activeLayout:
+      prefs.activeLayout && prefs.layouts[prefs.activeLayout]
+        ? prefs.activeLayout
+        : null,
+    togglePin,
+    saveLayout,
+    deleteLayout,
+    setActiveLayout,
+  };
+}
@@ -0,0 +1,347 @@
+import React from "react";
+import {
+  Button,
+  Chip,
+  Spinner,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Tooltip,
+  addToast,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import {
+  client,
+  MAX_FILE_BYTES,
+  RecordAttachment,
+  RecordFile,
+} from "../../services/client";
+
+interface FilesPanelProps {
+  recordId: string;
+  searchTerm: string;
+}
+
+const formatBytes = (n: number) => {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    // Result is a data: URL; keep only the payload after the comma
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const saveBlob = (base64: string, contentType: string, fileName: string) => {
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: contentType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const tableClassNames = {
+  th: "bg-default-50 dark:bg-default-100/20 text-default-600 text-xs",
+  td: "py-2 text-xs",
+};
+
+// Salesforce Files and legacy Attachments linked to the record
+export default function FilesPanel({ recordId, searchTerm }: FilesPanelProps) {
+  const [files, setFiles] = React.useState<RecordFile[]>([]);
+  const [attachments, setAttachments] = React.useState<RecordAttachment[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  // Id of the row with a download/upload in flight, "new" for a new file
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  // ContentDocumentId the picked file becomes a version of; null → new file
+  const uploadTarget = React.useRef<string | null>(null);
+
+  const fetchFiles = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await client.listRecordFiles(recordId);
+      setFiles(res.files);
+      setAttachments(res.attachments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load files");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [recordId]);
+
+  React.useEffect(() => {
+    fetchFiles();
+  }, [fetchFiles]);
+
+  const handleDownload = async (
+    kind: "ContentVersion" | "Attachment",
+    id: string,
+    fileName: string,
+  ) => {
+    setBusyId(id);
+    try {
+      const res = await client.downloadFile(kind, id);
+      saveBlob(res.base64, res.contentType, fileName);
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Download failed",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pickFile = (contentDocumentId: string | null) => {
+    uploadTarget.current = contentDocumentId;
+    fileInput.current?.click();
+  };
+
+  const handleFilePicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_FILE_BYTES) {
+      addToast({
+        title: "File too large",
+        description: `Uploads are limited to ${formatBytes(MAX_FILE_BYTES)}`,
+        color: "warning",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+      return;
+    }
+    const contentDocumentId = uploadTarget.current;
+    setBusyId(contentDocumentId ?? "new");
+    try {
+      await client.uploadFile({
+        ...(contentDocumentId ? { contentDocumentId } : { recordId }),
+        fileName: file.name,
+        base64: await readAsBase64(file),
+      });
+      addToast({
+        title: "Uploaded",
+        description: contentDocumentId
+          ? `New version of ${file.name} uploaded`
+          : `${file.name} attached to the record`,
+        color: "success",
+        icon: <Icon icon="lucide:check-circle" />,
+      });
+      fetchFiles();
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Upload failed",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const visibleFiles = files.filter((f) =>
+    f.title.toLowerCase().includes(term),
+  );
+  const visibleAttachments = attachments.filter((a) =>
+    a.name.toLowerCase().includes(term),
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" color="primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+        <div className="flex items-start gap-2">
+          <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+          <div>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <input
+        ref={fileInput}
+        type="file"
+        className="hidden"
+        onChange={handleFilePicked}
+      />
+
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <Icon icon="lucide:file" className="text-default-500" />
+          <span className="text-sm font-semibold">Files</span>
+          <Chip size="sm" variant="flat">
+            {files.length}
+          </Chip>
+          <Button
+            size="sm"
+            variant="flat"
+            className="ml-auto"
+            onPress={() => pickFile(null)}
+            isLoading={busyId === "new"}
+            isDisabled={busyId !== null}
+            startContent={<Icon icon="lucide:upload" />}
+          >
+            Upload File
+          </Button>
+        </div>
+        <Table removeWrapper aria-label="Files" classNames={tableClassNames}>
+          <TableHeader>
+            <TableColumn key="title">TITLE</TableColumn>
+            <TableColumn key="size">SIZE</TableColumn>
+            <TableColumn key="version">VERSION</TableColumn>
+            <TableColumn key="owner">OWNER</TableColumn>
+            <TableColumn key="modified">LAST MODIFIED</TableColumn>
+            <TableColumn key="actions"> </TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="No files">
+            {visibleFiles.map((f) => {
+              const fileName = f.extension
+                ? `${f.title}.${f.extension}`
+                : f.title;
+              return (
+                <TableRow key={f.contentDocumentId}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="font-medium">{fileName}</span>
+                      <span className="font-mono text-default-400">
+                        {f.contentDocumentId}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatBytes(f.size)}</TableCell>
+                  <TableCell>v{f.versionNumber}</TableCell>
+                  <TableCell>{f.owner ?? ""}</TableCell>
+                  <TableCell>
+                    {new Date(f.lastModifiedDate).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1 justify-end">
+                      <Tooltip content="Download latest version">
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          isLoading={busyId === f.versionId}
+                          isDisabled={
+                            busyId !== null || f.size > MAX_FILE_BYTES
+                          }
+                          onPress={() =>
+                            handleDownload(
+                              "ContentVersion",
+                              f.versionId,
+                              fileName,
+                            )
+                          }
+                        >
+                          <Icon icon="lucide:download" width={16} />
+                        </Button>
+                      </Tooltip>
+                      <Tooltip content="Upload new version">
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          isLoading={busyId === f.contentDocumentId}
+                          isDisabled={busyId !== null}
+                          onPress={() => pickFile(f.contentDocumentId)}
+                        >
+                          <Icon icon="lucide:file-up" width={16} />
+                        </Button>
+                      </Tooltip>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <Icon icon="lucide:paperclip" className="text-default-500" />
+          <span className="text-sm font-semibold">Attachments</span>
+          <Chip size="sm" variant="flat">
+            {attachments.length}
+          </Chip>
+        </div>
+        <Table
+          removeWrapper
+          aria-label="Attachments"
+          classNames={tableClassNames}
+        >
+          <TableHeader>
+            <TableColumn key="name">NAME</TableColumn>
+            <TableColumn key="size">SIZE</TableColumn>
+            <TableColumn key="type">CONTENT TYPE</TableColumn>
+            <TableColumn key="owner">OWNER</TableColumn>
+            <TableColumn key="modified">LAST MODIFIED</TableColumn>
+            <TableColumn key="actions"> </TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="No attachments">
+            {visibleAttachments.map((a) => (
+              <TableRow key={a.id}>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span className="font-medium">{a.name}</span>
+                    <span className="font-mono text-default-400">{a.id}</span>
+                  </div>
+                </TableCell>
+                <TableCell>{formatBytes(a.size)}</TableCell>
+                <TableCell>{a.contentType ?? ""}</TableCell>
+                <TableCell>{a.owner ?? ""}</TableCell>
+                <TableCell>
+                  {new Date(a.lastModifiedDate).toLocaleString()}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Tooltip content="Download">
+                      <Button
+                        isIconOnly
+                        size="sm"
+                        variant="light"
+                        isLoading={busyId === a.id}
+                        isDisabled={busyId !== null || a.size > MAX_FILE_BYTES}
+                        onPress={() =>
+                          handleDownload("Attachment", a.id, a.name)
+                        }
+                      >
+                        <Icon icon="lucide:download" width={16} />
+                      </Button>
+                    </Tooltip>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
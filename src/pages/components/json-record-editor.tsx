@@ -0,0 +1,270 @@
+import React from "react";
+import { Chip } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import CodeMirror from "@uiw/react-codemirror";
+import { json } from "@codemirror/lang-json";
+import { Diagnostic, linter, lintGutter } from "@codemirror/lint";
+import { vscodeDark } from "@uiw/codemirror-theme-vscode";
+import { RECORD_ID_PATTERN } from "../../services/client";
+import { NUMBER_TYPES } from "./field-input";
+
+interface JsonRecordEditorProps {
+  // Record as loaded and as currently edited
+  base: any;
+  value: any;
+  fieldsMap: Map<string, any>;
+  // Called with the merged record whenever the text is valid
+  onChange: (record: any) => void;
+  onErrorCountChange: (count: number) => void;
+}
+
+const STRING_TYPES = new Set([
+  "string",
+  "textarea",
+  "email",
+  "phone",
+  "url",
+  "picklist",
+  "multipicklist",
+  "combobox",
+  "encryptedstring",
+  "time",
+]);
+
+// The form keeps cleared inputs as "", which reads better as null here
+const toText = (record: any) => {
+  const { attributes, ...fields } = record ?? {};
+  return JSON.stringify(fields, (_, v) => (v === "" ? null : v), 2);
+};
+
+const sameValue = (a: any, b: any) =>
+  JSON.stringify(a === "" ? null : (a ?? null)) ===
+  JSON.stringify(b === "" ? null : (b ?? null));
+
+// Offset of a JSON.parse failure; the wording differs between engines
+const parseErrorOffset = (message: string, text: string) => {
+  const pos = /position (\d+)/.exec(message);
+  if (pos) return Number(pos[1]);
+  const lc = /line (\d+) column (\d+)/.exec(message);
+  if (lc) {
+    const lines = text.split("\n").slice(0, Number(lc[1]) - 1);
+    return lines.reduce((n, l) => n + l.length + 1, 0) + Number(lc[2]) - 1;
+  }
+  return 0;
+};
+
+/** Type error for one field value, or null when the value fits. */
+function typeError(fieldMeta: any, v: any): string | null {
+  const type = fieldMeta.type;
+  if (v === null) {
+    if (type === "boolean") return "expects true or false";
+    return fieldMeta.nillable ? null : "is required and cannot be null";
+  }
+  if (type === "boolean") {
+    return typeof v === "boolean" ? null : "expects true or false";
+  }
+  if (NUMBER_TYPES.has(type)) {
+    return typeof v === "number" ? null : "expects a number";
+  }
+  if (type === "reference" || type === "id") {
+    return typeof v === "string" && RECORD_ID_PATTERN.test(v)
+      ? null
+      : "expects a 15 or 18 character Id";
+  }
+  if (type === "date") {
+    return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v)
+      ? null
+      : "expects a YYYY-MM-DD date";
+  }
+  if (type === "datetime") {
+    return typeof v === "string" && !isNaN(Date.parse(v))
+      ? null
+      : "expects an ISO 8601 date/time";
+  }
+  if (STRING_TYPES.has(type)) {
+    if (typeof v !== "string") return "expects a string";
+    if (fieldMeta.length && v.length > fieldMeta.length)
+      return `is longer than ${fieldMeta.length} characters`;
+    if (type === "picklist" && fieldMeta.restrictedPicklist) {
+      const allowed = (fieldMeta.picklistValues || []).filter(
+        (p: any) => p.active,
+      );
+      if (!allowed.some((p: any) => p.value === v))
+        return `"${v}" is not an active picklist value`;
+    }
+  }
+  return null;
+}
+
+/** Parse the text and check every changed key against the describe. */
+function validate(text: string, base: any, fieldsMap: Map<string, any>) {
+  const diagnostics: Diagnostic[] = [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    const from = Math.min(parseErrorOffset(e.message, text), text.length);
+    diagnostics.push({ from, to: from, severity: "error", message: e.message });
+    return { parsed: null, diagnostics };
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    diagnostics.push({
+      from: 0,
+      to: text.length,
+      severity: "error",
+      message: "Expected a JSON object of field values",
+    });
+    return { parsed: null, diagnostics };
+  }
+
+  // Literal search: keys can hold any character, regex syntax included
+  const rangeOf = (key: string) => {
+    const quoted = JSON.stringify(key);
+    let i = text.indexOf(quoted);
+    while (i >= 0) {
+      if (/^\s*:/.test(text.slice(i + quoted.length)))
+        return { from: i, to: i + quoted.length };
+      i = text.indexOf(quoted, i + 1);
+    }
+    return { from: 0, to: 0 };
+  };
+
+  Object.entries(parsed).forEach(([key, v]) => {
+    const fieldMeta = fieldsMap.get(key);
+    if (!fieldMeta) {
+      diagnostics.push({
+        ...rangeOf(key),
+        severity: "error",
+        message: `${key} is not a field on this object`,
+      });
+      return;
+    }
+    if (sameValue(base[key], v)) return;
+    if (!fieldMeta.updateable) {
+      diagnostics.push({
+        ...rangeOf(key),
+        severity: "error",
+        message: `${key} is not updateable`,
+      });
+      return;
+    }
+    const problem = typeError(fieldMeta, v);
+    if (problem) {
+      diagnostics.push({
+        ...rangeOf(key),
+        severity: "error",
+        message: `${key} ${problem}`,
+      });
+    }
+  });
+  return { parsed, diagnostics };
+}
+
+// Whole-record JSON view; fields left out of the text are simply not updated
+export default function JsonRecordEditor({
+  base,
+  value,
+  fieldsMap,
+  onChange,
+  onErrorCountChange,
+}: JsonRecordEditorProps) {
+  const [text, setText] = React.useState(() => toText(value));
+  // Last record this view emitted, to tell our own edits from outside ones
+  const emitted = React.useRef<any>(value);
+
+  React.useEffect(() => {
+    if (value !== emitted.current) {
+      emitted.current = value;
+      setText(toText(value));
+    }
+  }, [value]);
+
+  const { diagnostics } = React.useMemo(
+    () => validate(text, base, fieldsMap),
+    [text, base, fieldsMap],
+  );
+
+  React.useEffect(() => {
+    onErrorCountChange(diagnostics.length);
+  }, [diagnostics.length]);
+  React.useEffect(() => () => onErrorCountChange(0), []);
+
+  const lintExtension = React.useMemo(
+    () =>
+      linter(
+        (view) =>
+          validate(view.state.doc.toString(), base, fieldsMap).diagnostics,
+        { delay: 300 },
+      ),
+    [base, fieldsMap],
+  );
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const result = validate(next, base, fieldsMap);
+    if (!result.parsed || result.diagnostics.length > 0) return;
+    // Keys removed from the text, and unchanged values, keep the loaded
+    // value so the editor's own dirty check sees no change for them
+    const merged = { ...base };
+    Object.entries(result.parsed).forEach(([k, v]) => {
+      if (!sameValue(base[k], v)) merged[k] = v;
+    });
+    emitted.current = merged;
+    onChange(merged);
+  };
+
+  const changed = React.useMemo(() => {
+    if (!value) return 0;
+    return Object.keys(value).filter(
+      (k) => k !== "attributes" && !sameValue(base[k], value[k]),
+    ).length;
+  }, [base, value]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-xs text-default-500">
+        <Icon icon="lucide:braces" />
+        <span>
+          Only fields that differ from the loaded record are sent; removing a
+          key leaves that field untouched.
+        </span>
+        <div className="ml-auto flex gap-2">
+          {changed > 0 && (
+            <Chip size="sm" variant="flat" color="primary">
+              {changed} changed
+            </Chip>
+          )}
+          {diagnostics.length > 0 && (
+            <Chip size="sm" variant="flat" color="danger">
+              {diagnostics.length} error{diagnostics.length === 1 ? "" : "s"}
+            </Chip>
+          )}
+        </div>
+      </div>
+      <CodeMirror
+        value={text}
+        onChange={handleChange}
+        height="calc(100vh - 330px)"
+        theme={vscodeDark}
+        extensions={[json(), lintExtension, lintGutter()]}
+      />
+      {diagnostics.length > 0 && (
+        <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-xs">
+          <ul className="space-y-1">
+            {diagnostics.slice(0, 5).map((d, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+                <span>{d.message}</span>
+              </li>
+            ))}
+            {diagnostics.length > 5 && (
+              <li className="text-default-500">
+                …and {diagnostics.length - 5} more
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
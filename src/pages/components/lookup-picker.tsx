@@ -0,0 +1,157 @@
+import React from "react";
+import {
+  Autocomplete,
+  AutocompleteItem,
+  Button,
+  Chip,
+  Tooltip,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import {
+  client,
+  LookupHit,
+  RECORD_ID_PATTERN,
+  ReferenceName,
+} from "../../services/client";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface LookupPickerProps {
+  name: string;
+  fieldMeta: any;
+  value: string | null;
+  referenceName?: ReferenceName;
+  onChange: (name: string, value: any) => void;
+  onOpenReference?: (sObjectName: string | undefined, recordId: string) => void;
+  isDisabled?: boolean;
+}
+
+// Searchable lookup input; pasting a raw Id still works
+export default function LookupPicker({
+  name,
+  fieldMeta,
+  value,
+  referenceName,
+  onChange,
+  onOpenReference,
+  isDisabled,
+}: LookupPickerProps) {
+  const targets: string[] = fieldMeta.referenceTo ?? [];
+  const isPolymorphic = targets.length > 1;
+  const [hits, setHits] = React.useState<LookupHit[]>([]);
+  const [isSearching, setIsSearching] = React.useState(false);
+  // Names of records picked here, which the parent has not resolved yet
+  const [picked, setPicked] = React.useState<Record<string, LookupHit>>({});
+
+  const current = value ? picked[value] : undefined;
+  const currentLabel = value
+    ? (current?.name ?? referenceName?.name ?? value)
+    : "";
+  const currentObject = current?.sObjectName ?? referenceName?.sObjectName;
+  const [inputValue, setInputValue] = React.useState<string>(currentLabel);
+
+  React.useEffect(() => setInputValue(currentLabel), [currentLabel]);
+
+  // Only the typed text drives a search
+  React.useEffect(() => {
+    const term = inputValue.trim();
+    if (
+      term.length < 2 ||
+      term === currentLabel ||
+      RECORD_ID_PATTERN.test(term)
+    ) {
+      setHits([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsSearching(true);
+      client
+        .searchLookup(term, targets)
+        .then((res) => !cancelled && setHits(res))
+        .catch(() => !cancelled && setHits([]))
+        .finally(() => !cancelled && setIsSearching(false));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [inputValue]);
+
+  const handleInputChange = (text: string) => {
+    setInputValue(text);
+    const trimmed = text.trim();
+    if (RECORD_ID_PATTERN.test(trimmed) && trimmed !== value) {
+      onChange(name, trimmed);
+    } else if (trimmed === "" && value && fieldMeta.nillable) {
+      onChange(name, null);
+    }
+  };
+
+  const handleSelect = (key: React.Key | null) => {
+    if (!key) return;
+    const hit = hits.find((h) => h.Id === key);
+    if (!hit) return;
+    setPicked((prev) => ({ ...prev, [hit.Id]: hit }));
+    onChange(name, hit.Id);
+  };
+
+  return (
+    <Autocomplete
+      label={fieldMeta.label}
+      aria-label={fieldMeta.label}
+      size="sm"
+      variant="bordered"
+      inputValue={inputValue}
+      onInputChange={handleInputChange}
+      selectedKey={value}
+      onSelectionChange={handleSelect}
+      items={hits}
+      isLoading={isSearching}
+      isDisabled={isDisabled}
+      allowsCustomValue
+      placeholder={`Search ${targets.join(", ")}...`}
+      description={
+        value
+          ? [currentObject, value].filter(Boolean).join(" · ")
+          : undefined
+      }
+      startContent={
+        <Icon icon="lucide:link" className="text-default-400 text-sm" />
+      }
+      endContent={
+        value && onOpenReference ? (
+          <Tooltip content={`Open ${currentLabel}`}>
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              className="h-6 w-6 min-w-0"
+              onPress={() => onOpenReference(currentObject ?? undefined, value)}
+            >
+              <Icon icon="lucide:arrow-up-right" width={14} />
+            </Button>
+          </Tooltip>
+        ) : null
+      }
+    >
+      {(hit: LookupHit) => (
+        <AutocompleteItem key={hit.Id} textValue={hit.name}>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex flex-col">
+              <span className="text-small">{hit.name}</span>
+              <span className="text-tiny font-mono text-default-400">
+                {hit.Id}
+              </span>
+            </div>
+            {isPolymorphic && (
+              <Chip size="sm" variant="flat" color="secondary">
+                {hit.sObjectName}
+              </Chip>
+            )}
+          </div>
+        </AutocompleteItem>
+      )}
+    </Autocomplete>
+  );
+}
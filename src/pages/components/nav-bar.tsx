@@ -30,6 +30,11 @@ const navItems: NavItem[] = [
     label: "SOQL",
     icon: "lucide:terminal",
   },
+  {
+    path: "/recycle-bin",
+    label: "Recycle Bin",
+    icon: "lucide:trash-2",
+  },
   {
     path: "/requests",
     label: "Requests",
@@ -0,0 +1,379 @@
+import React from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Checkbox,
+  Chip,
+  Input,
+  Spinner,
+  Switch,
+  Tooltip,
+  addToast,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { client } from "../../services/client";
+import {
+  availablePicklistValues,
+  clearInvalidDependents,
+  renderField,
+  useRecordTypePicklists,
+} from "./field-input";
+import ObjectPicker from "./object-picker";
+
+interface NewRecordFormProps {
+  initialSObjectName?: string;
+  // Record to copy values from; locks the form to its sObject
+  cloneFrom?: any;
+  onCreated: (sObjectName: string, recordId: string) => void;
+  onCancel: () => void;
+}
+
+// Required on insert: not nillable and not filled in by the platform
+export const isRequiredOnCreate = (fieldMeta: any) =>
+  fieldMeta.createable &&
+  !fieldMeta.nillable &&
+  !fieldMeta.defaultedOnCreate &&
+  fieldMeta.type !== "boolean";
+
+export default function NewRecordForm({
+  initialSObjectName,
+  cloneFrom,
+  onCreated,
+  onCancel,
+}: NewRecordFormProps) {
+  const [sObjectName, setSObjectName] = React.useState<string>(
+    initialSObjectName ?? "",
+  );
+  const [schema, setSchema] = React.useState<any>(null);
+  const [values, setValues] = React.useState<Record<string, any>>({});
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [searchTerm, setSearchTerm] = React.useState("");
+  const [showRequiredOnly, setShowRequiredOnly] = React.useState(false);
+  const [missing, setMissing] = React.useState<Set<string>>(new Set());
+  // Fields that will be sent on insert (clone mode only)
+  const [included, setIncluded] = React.useState<Set<string>>(new Set());
+  const recordTypeValues = useRecordTypePicklists(
+    schema ? sObjectName : "",
+    values.RecordTypeId,
+  );
+  const fieldsMap = React.useMemo(
+    () =>
+      new Map<string, any>(
+        (schema?.fields || []).map((f: any) => [f.name, f]),
+      ),
+    [schema],
+  );
+
+  React.useEffect(() => {
+    if (!sObjectName) {
+      setSchema(null);
+      return;
+    }
+    setIsLoading(true);
+    setMissing(new Set());
+    client
+      .describeSObject(sObjectName)
+      .then((desc) => {
+        if (!desc.createable) {
+          throw new Error(`${sObjectName} is not createable`);
+        }
+        setSchema(desc);
+        const blank: Record<string, any> = {};
+        const copied = new Set<string>();
+        desc.fields
+          .filter((f: any) => f.createable)
+          .forEach((f: any) => {
+            if (cloneFrom && cloneFrom[f.name] != null) {
+              blank[f.name] = cloneFrom[f.name];
+              // Unique values would only collide with the source record
+              if (!f.unique) copied.add(f.name);
+            } else {
+              blank[f.name] = f.type === "boolean" ? !!f.defaultValue : null;
+            }
+          });
+        setValues(blank);
+        setIncluded(copied);
+      })
+      .catch((error) => {
+        setSchema(null);
+        addToast({
+          title: "Error",
+          description:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch object metadata",
+          color: "danger",
+          icon: <Icon icon="lucide:alert-triangle" />,
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [sObjectName, cloneFrom]);
+
+  const createableFields = React.useMemo(() => {
+    if (!schema) return [];
+    return schema.fields
+      .filter((f: any) => f.createable)
+      .sort(
+        (a: any, b: any) =>
+          Number(isRequiredOnCreate(b)) - Number(isRequiredOnCreate(a)) ||
+          a.label.localeCompare(b.label),
+      );
+  }, [schema]);
+
+  const filteredFields = createableFields.filter((f: any) => {
+    if (showRequiredOnly && !isRequiredOnCreate(f)) return false;
+    const term = searchTerm.toLowerCase();
+    return (
+      f.label.toLowerCase().includes(term) ||
+      f.name.toLowerCase().includes(term)
+    );
+  });
+
+  const isIncluded = (name: string) => !cloneFrom || included.has(name);
+
+  const toggleIncluded = (name: string, checked: boolean) =>
+    setIncluded((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(name);
+      else next.delete(name);
+      return next;
+    });
+
+  const handleChange = (name: string, value: any) => {
+    setValues((prev) =>
+      clearInvalidDependents(
+        { ...prev, [name]: value },
+        name,
+        fieldsMap,
+        recordTypeValues,
+      ),
+    );
+    if (cloneFrom) toggleIncluded(name, true);
+    setMissing((prev) => {
+      if (!prev.has(name)) return prev;
+      const next = new Set(prev);
+      next.delete(name);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    const required = createableFields.filter(isRequiredOnCreate);
+    const empty = required
+      .filter(
+        (f: any) =>
+          !isIncluded(f.name) ||
+          values[f.name] === null ||
+          values[f.name] === "",
+      )
+      .map((f: any) => f.name);
+    if (empty.length > 0) {
+      setMissing(new Set(empty));
+      addToast({
+        title: "Missing required fields",
+        description: empty.join(", "),
+        color: "warning",
+        icon: <Icon icon="lucide:asterisk" />,
+      });
+      return;
+    }
+
+    const recordData: { [key: string]: any } = {};
+    Object.entries(values).forEach(([key, value]) => {
+      if (isIncluded(key) && value !== null && value !== "")
+        recordData[key] = value;
+    });
+
+    setIsSaving(true);
+    try {
+      const result = await client.createRecord(sObjectName, recordData);
+      addToast({
+        title: "Success",
+        description: `${sObjectName} ${result.id} created`,
+        color: "success",
+        icon: <Icon icon="lucide:check-circle" />,
+      });
+      onCreated(sObjectName, result.id);
+    } catch (error) {
+      addToast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to create record",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header Section */}
+      <Card className="rounded-none shadow-none border-b border-t-0 border-x-0 bg-content1 dark:bg-content1 dark:border-default-100">
+        <CardBody className="py-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Icon
+                icon={cloneFrom ? "lucide:copy" : "lucide:file-plus"}
+                className="text-primary text-xl"
+              />
+              <div>
+                <h1 className="text-lg font-semibold flex items-center gap-2">
+                  {cloneFrom ? "Clone Record" : "New Record"}
+                  {cloneFrom && (
+                    <Chip size="sm" variant="flat" color="primary">
+                      {cloneFrom.Id}
+                    </Chip>
+                  )}
+                </h1>
+                <p className="text-sm text-default-500">
+                  {schema?.label || "Pick an object to insert into"}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 items-center">
+              <ObjectPicker
+                value={sObjectName}
+                onChange={setSObjectName}
+                isDisabled={!!cloneFrom}
+              />
+              <Button variant="flat" onPress={onCancel}>
+                Cancel
+              </Button>
+              <Button
+                color="primary"
+                onPress={handleCreate}
+                isDisabled={!schema || isSaving}
+                isLoading={isSaving}
+                startContent={<Icon icon="lucide:save" />}
+              >
+                Create
+              </Button>
+            </div>
+          </div>
+        </CardBody>
+      </Card>
+
+      {/* Search */}
+      {schema && (
+        <div className="px-4 py-2 border-b dark:border-default-100 flex flex-col sm:flex-row gap-2 justify-between sm:items-center">
+          <span className="text-small text-default-500">
+            {filteredFields.length} of {createableFields.length} createable
+            fields
+            {cloneFrom && (
+              <Chip size="sm" variant="flat" className="ml-2">
+                {included.size} copied
+              </Chip>
+            )}
+          </span>
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            <Switch
+              size="sm"
+              isSelected={showRequiredOnly}
+              onValueChange={setShowRequiredOnly}
+              color="primary"
+            >
+              <span className="text-xs whitespace-nowrap">Required only</span>
+            </Switch>
+            <Input
+              type="text"
+              placeholder="Search fields..."
+              value={searchTerm}
+              onValueChange={setSearchTerm}
+              size="sm"
+              startContent={
+                <Icon
+                  icon="lucide:search"
+                  className="text-default-400"
+                  width={16}
+                  height={16}
+                />
+              }
+              className="w-full sm:w-64"
+              isClearable
+            />
+          </div>
+        </div>
+      )}
+
+      <main className="flex-grow p-4 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" color="primary" />
+            <span className="ml-2">Loading schema...</span>
+          </div>
+        ) : !schema ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <Icon
+              icon="lucide:file-plus"
+              className="text-6xl text-default-300 mb-4"
+            />
+            <p className="text-default-500">
+              Choose an sObject to build a blank form
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
+            {filteredFields.map((fieldMeta: any) => (
+              <div
+                key={fieldMeta.name}
+                className={`space-y-1 ${
+                  missing.has(fieldMeta.name)
+                    ? "bg-danger-50 dark:bg-danger-900/20 p-2 rounded-lg -m-2"
+                    : ""
+                } ${isIncluded(fieldMeta.name) ? "" : "opacity-50"}`}
+              >
+                <div className="flex items-center justify-between">
+                  {cloneFrom ? (
+                    <Checkbox
+                      size="sm"
+                      isSelected={included.has(fieldMeta.name)}
+                      onValueChange={(checked) =>
+                        toggleIncluded(fieldMeta.name, checked)
+                      }
+                    >
+                      <span className="font-mono text-xs text-default-400 truncate max-w-[150px]">
+                        {fieldMeta.name}
+                      </span>
+                    </Checkbox>
+                  ) : (
+                    <span className="font-mono text-xs text-default-400 truncate max-w-[150px]">
+                      {fieldMeta.name}
+                    </span>
+                  )}
+                  {isRequiredOnCreate(fieldMeta) && (
+                    <Tooltip content="Required field">
+                      <Chip size="sm" variant="flat" color="danger">
+                        Required
+                      </Chip>
+                    </Tooltip>
+                  )}
+                </div>
+                {renderField(
+                  fieldMeta.name,
+                  values[fieldMeta.name],
+                  fieldMeta,
+                  handleChange,
+                  {
+                    isCreate: true,
+                    picklistValues: fieldMeta.picklistValues?.length
+                      ? availablePicklistValues(
+                          fieldMeta,
+                          values,
+                          fieldsMap,
+                          recordTypeValues,
+                        )
+                      : undefined,
+                  },
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
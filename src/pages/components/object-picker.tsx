@@ -0,0 +1,61 @@
+import React from "react";
+import { Autocomplete, AutocompleteItem } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { client } from "../../services/client";
+
+interface ObjectPickerProps {
+  value: string;
+  onChange: (sObjectName: string) => void;
+  isDisabled?: boolean;
+  className?: string;
+}
+
+// sObject autocomplete backed by the cached describeGlobal table
+export default function ObjectPicker({
+  value,
+  onChange,
+  isDisabled,
+  className = "w-64",
+}: ObjectPickerProps) {
+  const [inputValue, setInputValue] = React.useState<string>(value);
+  const [options, setOptions] = React.useState<any[]>([]);
+
+  React.useEffect(() => setInputValue(value), [value]);
+
+  React.useEffect(() => {
+    if (!inputValue) {
+      setOptions([]);
+      return;
+    }
+    client
+      .searchGlobalObjects(inputValue)
+      .then(setOptions)
+      .catch(() => setOptions([]));
+  }, [inputValue]);
+
+  return (
+    <Autocomplete
+      aria-label="sObject"
+      placeholder="Search objects..."
+      size="sm"
+      className={className}
+      inputValue={inputValue}
+      onInputChange={setInputValue}
+      selectedKey={value || null}
+      onSelectionChange={(key) => key && onChange(String(key))}
+      items={options}
+      isDisabled={isDisabled}
+      allowsCustomValue
+      startContent={<Icon icon="lucide:database" className="text-default-400" />}
+    >
+      {(item: any) => (
+        <AutocompleteItem key={item.name} textValue={item.name}>
+          <div className="flex flex-col">
+            <span className="text-small">{item.name}</span>
+            <span className="text-tiny text-default-400">{item.label}</span>
+          </div>
+        </AutocompleteItem>
+      )}
+    </Autocomplete>
+  );
+}
@@ -0,0 +1,310 @@
+import React from "react";
+import {
+  Button,
+  Chip,
+  Input,
+  Spinner,
+  Switch,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Tooltip,
+  addToast,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { client, RECORD_ID_PATTERN } from "../../services/client";
+
+interface RecordCompareProps {
+  sObjectName: string;
+  // Current record with any unsaved edits
+  record: any;
+  fieldsMap: Map<string, any>;
+  searchTerm: string;
+  // Puts the other record's value into the current edit buffer
+  onCopyToCurrent: (field: string, value: any) => void;
+  onOpenRecord: (sObjectName: string, recordId: string) => void;
+}
+
+const normalize = (v: any) => (v === "" || v === undefined ? null : v);
+const isSame = (a: any, b: any) =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const formatValue = (v: any) => {
+  v = normalize(v);
+  if (v === null) return <span className="text-default-400 italic">null</span>;
+  if (typeof v === "object")
+    return <span className="break-all">{JSON.stringify(v)}</span>;
+  return <span className="break-all">{String(v)}</span>;
+};
+
+// Field-by-field diff of the current record against another of its type
+export default function RecordCompare({
+  sObjectName,
+  record,
+  fieldsMap,
+  searchTerm,
+  onCopyToCurrent,
+  onOpenRecord,
+}: RecordCompareProps) {
+  const [otherId, setOtherId] = React.useState("");
+  const [other, setOther] = React.useState<any>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [differencesOnly, setDifferencesOnly] = React.useState(true);
+  const [pushingField, setPushingField] = React.useState<string | null>(null);
+
+  const trimmed = otherId.trim();
+  const isValidId = RECORD_ID_PATTERN.test(trimmed);
+
+  const loadOther = React.useCallback(
+    async (recordId: string) => {
+      // Same key prefix ⇒ same sObject, checked before any API call
+      if (recordId.slice(0, 3) !== record.Id.slice(0, 3)) {
+        setError(`${recordId} is not a ${sObjectName} Id`);
+        setOther(null);
+        return;
+      }
+      setIsLoading(true);
+      setError(null);
+      try {
+        setOther(await client.getRecord({ sObjectName, recordId }));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load record");
+        setOther(null);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sObjectName, record.Id],
+  );
+
+  // A different current record invalidates the comparison
+  React.useEffect(() => {
+    setOther(null);
+    setError(null);
+  }, [record.Id]);
+
+  const handleCopyToOther = async (field: string) => {
+    if (!other) return;
+    // Unlike ← this writes to the org straight away
+    const value = normalize(record[field]);
+    if (
+      !window.confirm(
+        `Save ${field} = ${value === null ? "null" : JSON.stringify(value)} on ${other.Id} now?`,
+      )
+    )
+      return;
+    setPushingField(field);
+    try {
+      await client.updateRecord(sObjectName, {
+        Id: other.Id,
+        [field]: value,
+      });
+      addToast({
+        title: "Copied",
+        description: `${field} updated on ${other.Id}`,
+        color: "success",
+        icon: <Icon icon="lucide:check-circle" />,
+      });
+      await loadOther(other.Id);
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description:
+          err instanceof Error ? err.message : "Failed to update record",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setPushingField(null);
+    }
+  };
+
+  const rows = React.useMemo(() => {
+    if (!other) return [];
+    const term = searchTerm.toLowerCase();
+    return Array.from(fieldsMap.values())
+      .filter((f: any) => f.name in record || f.name in other)
+      .filter(
+        (f: any) =>
+          !term ||
+          f.name.toLowerCase().includes(term) ||
+          f.label.toLowerCase().includes(term),
+      )
+      .map((f: any) => ({
+        field: f,
+        isDifferent: !isSame(record[f.name], other[f.name]),
+      }))
+      .filter((row) => !differencesOnly || row.isDifferent);
+  }, [fieldsMap, record, other, searchTerm, differencesOnly]);
+
+  const differenceCount = React.useMemo(
+    () =>
+      other
+        ? Array.from(fieldsMap.keys()).filter(
+            (k) => k !== "Id" && !isSame(record[k], other[k]),
+          ).length
+        : 0,
+    [fieldsMap, record, other],
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <Input
+          type="text"
+          size="sm"
+          label={`Compare with ${sObjectName} Id`}
+          value={otherId}
+          onValueChange={setOtherId}
+          onKeyDown={(e) =>
+            e.key === "Enter" && isValidId && loadOther(trimmed)
+          }
+          isInvalid={trimmed !== "" && !isValidId}
+          className="sm:w-80"
+          classNames={{ input: "font-mono" }}
+          startContent={
+            <Icon icon="lucide:columns-2" className="text-default-400" />
+          }
+        />
+        <Button
+          color="primary"
+          variant="flat"
+          onPress={() => loadOther(trimmed)}
+          isDisabled={!isValidId}
+          isLoading={isLoading}
+          startContent={<Icon icon="lucide:git-compare" />}
+        >
+          Compare
+        </Button>
+        {other && (
+          <>
+            <Chip size="sm" variant="flat" color="warning">
+              {differenceCount} difference{differenceCount === 1 ? "" : "s"}
+            </Chip>
+            <Switch
+              size="sm"
+              isSelected={differencesOnly}
+              onValueChange={setDifferencesOnly}
+              className="sm:ml-auto"
+            >
+              <span className="text-xs whitespace-nowrap">
+                Differences only
+              </span>
+            </Switch>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+          <div className="flex items-start gap-2">
+            <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+            <div>{error}</div>
+          </div>
+        </div>
+      )}
+
+      {isLoading && !other ? (
+        <div className="flex items-center justify-center py-12">
+          <Spinner size="lg" color="primary" />
+        </div>
+      ) : !other ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <Icon
+            icon="lucide:columns-2"
+            className="text-4xl text-default-300 mb-2"
+          />
+          <p className="text-default-500">
+            Enter the Id of another {sObjectName} to compare field by field
+          </p>
+        </div>
+      ) : (
+        <Table
+          removeWrapper
+          isHeaderSticky
+          aria-label="Record comparison"
+          classNames={{
+            th: "bg-default-50 dark:bg-default-100/20 text-default-600 text-xs",
+            td: "py-2 text-xs align-top",
+          }}
+        >
+          <TableHeader>
+            <TableColumn key="field">FIELD</TableColumn>
+            <TableColumn key="current">
+              <span className="font-mono">{record.Id}</span>
+            </TableColumn>
+            <TableColumn key="actions" className="w-20">
+              {" "}
+            </TableColumn>
+            <TableColumn key="other">
+              <button
+                className="font-mono text-primary hover:underline"
+                onClick={() => onOpenRecord(sObjectName, other.Id)}
+              >
+                {other.Id}
+              </button>
+            </TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="No differing fields">
+            {rows.map(({ field, isDifferent }) => (
+              <TableRow
+                key={field.name}
+                className={
+                  isDifferent ? "bg-warning-50 dark:bg-warning-900/20" : ""
+                }
+              >
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span className="font-medium">{field.label}</span>
+                    <span className="font-mono text-default-400">
+                      {field.name}
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell>{formatValue(record[field.name])}</TableCell>
+                <TableCell>
+                  {isDifferent && field.updateable && (
+                    <div className="flex gap-1">
+                      <Tooltip content="Copy into this record (unsaved)">
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          className="h-6 w-6 min-w-0"
+                          onPress={() =>
+                            onCopyToCurrent(field.name, other[field.name])
+                          }
+                        >
+                          <Icon icon="lucide:arrow-left" width={14} />
+                        </Button>
+                      </Tooltip>
+                      <Tooltip content="Save to the other record now (asks first)">
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          color="warning"
+                          className="h-6 w-6 min-w-0"
+                          isLoading={pushingField === field.name}
+                          isDisabled={pushingField !== null}
+                          onPress={() => handleCopyToOther(field.name)}
+                        >
+                          <Icon icon="lucide:arrow-right" width={14} />
+                        </Button>
+                      </Tooltip>
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>{formatValue(other[field.name])}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
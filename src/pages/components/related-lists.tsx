@@ -0,0 +1,291 @@
+import React from "react";
+import {
+  Button,
+  Chip,
+  Spinner,
+  Switch,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Pagination,
+  Tooltip,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { client, RelatedListInfo } from "../../services/client";
+
+const PAGE_SIZE = 10;
+// SOQL rejects OFFSET values above 2000
+const MAX_OFFSET = 2000;
+
+interface RelatedListsProps {
+  sObjectName: string;
+  recordId: string;
+  searchTerm: string;
+  onOpenRecord: (sObjectName: string, recordId: string) => void;
+}
+
+// Paged table of child records for a single relationship
+const RelatedRecordsTable = ({
+  rel,
+  parentId,
+  onOpenRecord,
+}: {
+  rel: RelatedListInfo;
+  parentId: string;
+  onOpenRecord: (sObjectName: string, recordId: string) => void;
+}) => {
+  const [page, setPage] = React.useState(1);
+  const [records, setRecords] = React.useState<any[]>([]);
+  const [nameField, setNameField] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    client
+      .getRelatedRecords(
+        rel.childSObject,
+        rel.field,
+        parentId,
+        PAGE_SIZE,
+        (page - 1) * PAGE_SIZE,
+      )
+      .then((res) => {
+        if (cancelled) return;
+        setRecords(res.records);
+        setNameField(res.nameField);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load records");
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [rel, parentId, page]);
+
+  const pages = Math.ceil(
+    Math.min(rel.count ?? 0, MAX_OFFSET + PAGE_SIZE) / PAGE_SIZE,
+  );
+
+  if (error) {
+    return <div className="text-xs text-danger p-2">{error}</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Table
+        removeWrapper
+        aria-label={`${rel.relationshipName} records`}
+        classNames={{ td: "py-1 text-xs", th: "text-xs" }}
+      >
+        <TableHeader>
+          <TableColumn key="id">ID</TableColumn>
+          <TableColumn key="name">{nameField ?? "NAME"}</TableColumn>
+          <TableColumn key="modified">LAST MODIFIED</TableColumn>
+          <TableColumn key="actions" width={60}>
+            {""}
+          </TableColumn>
+        </TableHeader>
+        <TableBody
+          isLoading={isLoading}
+          loadingContent={<Spinner size="sm" />}
+          emptyContent={isLoading ? " " : "No records"}
+        >
+          {records.map((rec) => (
+            <TableRow key={rec.Id}>
+              <TableCell className="font-mono">{rec.Id}</TableCell>
+              <TableCell>
+                {nameField && nameField !== "Id" ? String(rec[nameField] ?? "") : ""}
+              </TableCell>
+              <TableCell>
+                {rec.LastModifiedDate
+                  ? new Date(rec.LastModifiedDate).toLocaleString()
+                  : ""}
+              </TableCell>
+              <TableCell>
+                <Tooltip content="Open in editor">
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    onPress={() => onOpenRecord(rel.childSObject, rec.Id)}
+                  >
+                    <Icon icon="lucide:external-link" width={14} height={14} />
+                  </Button>
+                </Tooltip>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {pages > 1 && (
+        <div className="flex justify-end">
+          <Pagination
+            total={pages}
+            page={page}
+            onChange={setPage}
+            showControls
+            size="sm"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default function RelatedLists({
+  sObjectName,
+  recordId,
+  searchTerm,
+  onOpenRecord,
+}: RelatedListsProps) {
+  const [relationships, setRelationships] = React.useState<RelatedListInfo[]>(
+    [],
+  );
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [expanded, setExpanded] = React.useState<Set<string>>(new Set());
+  const [hideEmpty, setHideEmpty] = React.useState(false);
+
+  const fetchCounts = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const rels = await client.getRelatedCounts(sObjectName, recordId);
+      // Non-empty lists first, then alphabetically
+      rels.sort(
+        (a, b) =>
+          (b.count ?? -1) - (a.count ?? -1) ||
+          a.relationshipName.localeCompare(b.relationshipName),
+      );
+      setRelationships(rels);
+      setExpanded(new Set());
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load related lists",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sObjectName, recordId]);
+
+  React.useEffect(() => {
+    fetchCounts();
+  }, [fetchCounts]);
+
+  const toggle = (name: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  const term = searchTerm.toLowerCase();
+  const visible = relationships.filter(
+    (r) =>
+      (!hideEmpty || (r.count ?? 0) > 0) &&
+      (r.relationshipName.toLowerCase().includes(term) ||
+        r.childSObject.toLowerCase().includes(term)),
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" color="primary" />
+        <span className="ml-2">Counting related records...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 border border-danger rounded-medium bg-danger-50 dark:bg-danger-900/20 text-danger text-sm">
+        <div className="flex items-start gap-2">
+          <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+          <span>{error}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-small text-default-500">
+          {visible.length} of {relationships.length} relationships
+        </span>
+        <div className="flex items-center gap-2">
+          <Switch size="sm" isSelected={hideEmpty} onValueChange={setHideEmpty}>
+            <span className="text-xs whitespace-nowrap">Hide empty</span>
+          </Switch>
+          <Tooltip content="Recount">
+            <Button isIconOnly size="sm" variant="light" onPress={fetchCounts}>
+              <Icon icon="lucide:refresh-cw" className="text-default-500" />
+            </Button>
+          </Tooltip>
+        </div>
+      </div>
+      {visible.map((rel) => {
+        const isOpen = expanded.has(rel.relationshipName);
+        const canExpand = (rel.count ?? 0) > 0;
+        return (
+          <div
+            key={rel.relationshipName}
+            className="border border-default-200 dark:border-default-100 rounded-medium"
+          >
+            <button
+              className="w-full flex items-center justify-between px-3 py-2 text-left disabled:opacity-60"
+              onClick={() => toggle(rel.relationshipName)}
+              disabled={!canExpand}
+            >
+              <div className="flex items-center gap-2">
+                <Icon
+                  icon={isOpen ? "lucide:chevron-down" : "lucide:chevron-right"}
+                  className="text-default-400"
+                />
+                <span className="text-sm font-medium">
+                  {rel.relationshipName}
+                </span>
+                <span className="font-mono text-xs text-default-400">
+                  {rel.childSObject}.{rel.field}
+                </span>
+              </div>
+              {rel.count === null ? (
+                <Tooltip content="Not queryable">
+                  <Chip size="sm" variant="flat">
+                    n/a
+                  </Chip>
+                </Tooltip>
+              ) : (
+                <Chip
+                  size="sm"
+                  variant="flat"
+                  color={rel.count > 0 ? "primary" : "default"}
+                >
+                  {rel.count}
+                </Chip>
+              )}
+            </button>
+            {isOpen && (
+              <div className="px-3 pb-3">
+                <RelatedRecordsTable
+                  rel={rel}
+                  parentId={recordId}
+                  onOpenRecord={onOpenRecord}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
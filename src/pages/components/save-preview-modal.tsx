@@ -0,0 +1,253 @@
+import React from "react";
+import {
+  Button,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Radio,
+  RadioGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+
+// Audit fields every save touches; never part of a merge
+const AUDIT_FIELDS = new Set([
+  "LastModifiedDate",
+  "LastModifiedById",
+  "SystemModstamp",
+  "LastViewedDate",
+  "LastReferencedDate",
+]);
+
+type RowStatus = "mine" | "theirs" | "same" | "conflict";
+
+interface DiffRow {
+  key: string;
+  base: any;
+  mine: any;
+  theirs: any;
+  status: RowStatus;
+}
+
+// The editor stores cleared inputs as "", the API returns null
+const normalize = (v: any) => (v === "" || v === undefined ? null : v);
+const isSame = (a: any, b: any) => normalize(a) === normalize(b);
+
+export const modstampOf = (record: any) =>
+  record?.SystemModstamp ?? record?.LastModifiedDate ?? null;
+
+const formatValue = (v: any) => {
+  v = normalize(v);
+  if (v === null) return <span className="text-default-400 italic">null</span>;
+  return <span className="break-all">{String(v)}</span>;
+};
+
+const statusChip: Record<RowStatus, { label: string; color: any }> = {
+  mine: { label: "yours", color: "primary" },
+  theirs: { label: "theirs", color: "secondary" },
+  same: { label: "same", color: "default" },
+  conflict: { label: "conflict", color: "danger" },
+};
+
+interface SavePreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Record as loaded, as edited, and as it is on the server now
+  base: any;
+  mine: any;
+  theirs: any;
+  fieldsMap: Map<string, any>;
+  onConfirm: (changes: { [key: string]: any }) => void;
+  isSaving?: boolean;
+}
+
+export default function SavePreviewModal({
+  isOpen,
+  onClose,
+  base,
+  mine,
+  theirs,
+  fieldsMap,
+  onConfirm,
+  isSaving,
+}: SavePreviewModalProps) {
+  const isStale = !!theirs && modstampOf(theirs) !== modstampOf(base);
+  const [choices, setChoices] = React.useState<Record<string, string>>({});
+
+  // Reset picks when a newer server version replaces theirs too
+  React.useEffect(() => {
+    if (isOpen) setChoices({});
+  }, [isOpen, theirs]);
+
+  const rows = React.useMemo<DiffRow[]>(() => {
+    if (!base || !mine) return [];
+    return Object.keys(mine)
+      .filter((key) => key !== "attributes" && !AUDIT_FIELDS.has(key))
+      .map((key) => {
+        const mineChanged = !isSame(base[key], mine[key]);
+        const theirsChanged = isStale && !isSame(base[key], theirs[key]);
+        const status: RowStatus | null =
+          mineChanged && theirsChanged
+            ? isSame(mine[key], theirs[key])
+              ? "same"
+              : "conflict"
+            : mineChanged
+              ? "mine"
+              : theirsChanged
+                ? "theirs"
+                : null;
+        return {
+          key,
+          base: base[key],
+          mine: mine[key],
+          theirs: theirs?.[key],
+          status,
+        };
+      })
+      .filter((row): row is DiffRow => row.status !== null);
+  }, [base, mine, theirs, isStale]);
+
+  const conflicts = rows.filter((r) => r.status === "conflict");
+  const takeMine = (row: DiffRow) =>
+    row.status === "mine" ||
+    (row.status === "conflict" && choices[row.key] !== "theirs");
+
+  const handleConfirm = () => {
+    const changes: { [key: string]: any } = { Id: base.Id };
+    rows.filter(takeMine).forEach((row) => {
+      changes[row.key] = normalize(row.mine);
+    });
+    onConfirm(changes);
+  };
+
+  const label = (key: string) => fieldsMap.get(key)?.label ?? key;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="4xl" scrollBehavior="inside">
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          <div className="flex items-center gap-2">
+            <Icon icon="lucide:git-compare" className="text-primary" />
+            Review changes
+          </div>
+          {isStale && (
+            <div className="p-2 border border-warning-200 bg-warning-50 dark:bg-warning-900/20 rounded-medium text-warning-700 dark:text-warning-400 text-sm font-normal flex items-start gap-2">
+              <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+              <span>
+                Someone saved this record after you loaded it (
+                {new Date(modstampOf(theirs)).toLocaleString()}). Their
+                changes are kept; pick a side for each conflict.
+              </span>
+            </div>
+          )}
+        </ModalHeader>
+        <ModalBody>
+          <Table
+            removeWrapper
+            aria-label="Field changes"
+            classNames={{ td: "py-2 text-xs align-top", th: "text-xs" }}
+          >
+            <TableHeader>
+              {[
+                <TableColumn key="field">FIELD</TableColumn>,
+                <TableColumn key="base">
+                  {isStale ? "LOADED" : "OLD"}
+                </TableColumn>,
+                ...(isStale
+                  ? [<TableColumn key="theirs">THEIRS</TableColumn>]
+                  : []),
+                <TableColumn key="mine">{isStale ? "YOURS" : "NEW"}</TableColumn>,
+                ...(isStale
+                  ? [<TableColumn key="result">RESULT</TableColumn>]
+                  : []),
+              ]}
+            </TableHeader>
+            <TableBody emptyContent="Nothing to save">
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  {[
+                    <TableCell key="field">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{label(row.key)}</span>
+                        <span className="font-mono text-default-400">
+                          {row.key}
+                        </span>
+                      </div>
+                    </TableCell>,
+                    <TableCell key="base">{formatValue(row.base)}</TableCell>,
+                    ...(isStale
+                      ? [
+                          <TableCell key="theirs">
+                            {formatValue(row.theirs)}
+                          </TableCell>,
+                        ]
+                      : []),
+                    <TableCell key="mine">{formatValue(row.mine)}</TableCell>,
+                    ...(isStale
+                      ? [
+                          <TableCell key="result">
+                            {row.status === "conflict" ? (
+                              <RadioGroup
+                                size="sm"
+                                orientation="horizontal"
+                                value={choices[row.key] ?? "mine"}
+                                onValueChange={(v) =>
+                                  setChoices((prev) => ({
+                                    ...prev,
+                                    [row.key]: v,
+                                  }))
+                                }
+                              >
+                                <Radio value="mine">Yours</Radio>
+                                <Radio value="theirs">Theirs</Radio>
+                              </RadioGroup>
+                            ) : (
+                              <Chip
+                                size="sm"
+                                variant="flat"
+                                color={statusChip[row.status].color}
+                              >
+                                {statusChip[row.status].label}
+                              </Chip>
+                            )}
+                          </TableCell>,
+                        ]
+                      : []),
+                  ]}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ModalBody>
+        <ModalFooter>
+          {conflicts.length > 0 && (
+            <span className="text-small text-danger mr-auto">
+              {conflicts.length} conflicting field
+              {conflicts.length === 1 ? "" : "s"}
+            </span>
+          )}
+          <Button variant="flat" onPress={onClose}>
+            Cancel
+          </Button>
+          <Button
+            color="primary"
+            onPress={handleConfirm}
+            isLoading={isSaving}
+            isDisabled={!rows.some(takeMine)}
+            startContent={<Icon icon="lucide:save" />}
+          >
+            {isStale ? "Merge & Save" : "Save"}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
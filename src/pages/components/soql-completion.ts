@@ -0,0 +1,190 @@
+import {
+  autocompletion,
+  Completion,
+  CompletionContext,
+} from "@codemirror/autocomplete";
+import { QueryScope, scopesAt } from "../../services/soql-parser";
+
+interface SoqlCompletionSources {
+  describe: (sObjectName: string) => Promise<any>;
+  searchObjects: (prefix: string) => Promise<any[]>;
+}
+
+const PICKLIST_TYPES = new Set(["picklist", "multipicklist"]);
+
+// Field path, an operator that takes picklist values, then an optional list
+// of finished values and the quote being typed
+const PICKLIST_CONTEXT =
+  /([\w.]+)\s*(?:=|!=|<>|\bNOT\s+IN\b|\bIN\b|\bINCLUDES\b|\bEXCLUDES\b)\s*\(?(?:\s*'[^']*'\s*,)*\s*('[^']*)?$/i;
+
+const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Completions for SOQL that know where the cursor is: objects after FROM,
+ * child relationships in subqueries, fields along relationship paths and
+ * picklist values after comparison operators.
+ */
+export function soqlCompletion({
+  describe,
+  searchObjects,
+}: SoqlCompletionSources) {
+  const tryDescribe = (name: string) => describe(name).catch(() => null);
+
+  /** Object the innermost scope selects from, walking child relationships. */
+  const scopeObject = async (scopes: QueryScope[]) => {
+    let objectName: string | null = null;
+    for (const scope of scopes) {
+      if (!scope.sObjectName) return null;
+      if (scope.isChildRelationship && objectName) {
+        const parent = await tryDescribe(objectName);
+        const rel = (parent?.childRelationships || []).find(
+          (r: any) =>
+            r.relationshipName && eq(r.relationshipName, scope.sObjectName!),
+        );
+        objectName = rel?.childSObject ?? null;
+      } else {
+        objectName = scope.sObjectName;
+      }
+    }
+    return objectName;
+  };
+
+  /** Describe reached by following Owner.Profile from the scope object. */
+  const followPath = async (scope: QueryScope, base: any, path: string[]) => {
+    let desc = base;
+    let segments = path;
+    if (
+      segments.length > 0 &&
+      (eq(segments[0], base.name) ||
+        (scope.alias !== undefined && eq(segments[0], scope.alias)))
+    ) {
+      segments = segments.slice(1);
+    }
+    for (const seg of segments) {
+      const rel = desc.fields.find(
+        (f: any) => f.relationshipName && eq(f.relationshipName, seg),
+      );
+      // Polymorphic lookups have no single object to walk into
+      if (!rel || (rel.referenceTo || []).length !== 1) return null;
+      desc = await tryDescribe(rel.referenceTo[0]);
+      if (!desc) return null;
+    }
+    return desc;
+  };
+
+  const objectProvider = async (context: CompletionContext) => {
+    const word = context.matchBefore(/\w*/);
+    if (!word) return null;
+    const prev = context.state.sliceDoc(0, word.from);
+    if (!/(FROM|INTO|UPDATE|DELETE|MERGE)\s*$/i.test(prev)) return null;
+    if (word.from === word.to && !context.explicit) return null;
+
+    const scopes = scopesAt(context.state.doc.toString(), context.pos);
+    const inner = scopes[scopes.length - 1];
+    if (inner.isChildRelationship && scopes.length > 1) {
+      const parentName = await scopeObject(scopes.slice(0, -1));
+      const parent = parentName ? await tryDescribe(parentName) : null;
+      if (!parent) return null;
+      const options: Completion[] = (parent.childRelationships || [])
+        .filter((r: any) => r.relationshipName)
+        .map((r: any) => ({
+          label: r.relationshipName,
+          detail: r.childSObject,
+          type: "class",
+        }));
+      return { from: word.from, options };
+    }
+
+    const results = await searchObjects(word.text);
+    const opts: Completion[] = results.map((o: any) => ({
+      label: o.name,
+      info: o.label,
+      type: "table",
+    }));
+    return { from: word.from, options: opts };
+  };
+
+  const picklistProvider = async (context: CompletionContext) => {
+    const line = context.state.doc.lineAt(context.pos);
+    const before = context.state.sliceDoc(line.from, context.pos);
+    const m = PICKLIST_CONTEXT.exec(before);
+    if (!m) return null;
+    if (!m[2] && !context.explicit) return null;
+
+    const scopes = scopesAt(context.state.doc.toString(), context.pos);
+    const objectName = await scopeObject(scopes);
+    const base = objectName ? await tryDescribe(objectName) : null;
+    if (!base) return null;
+    const path = m[1].split(".");
+    const desc = await followPath(
+      scopes[scopes.length - 1],
+      base,
+      path.slice(0, -1),
+    );
+    const field = desc?.fields.find((f: any) =>
+      eq(f.name, path[path.length - 1]),
+    );
+    if (!field || !PICKLIST_TYPES.has(field.type)) return null;
+
+    const options: Completion[] = (field.picklistValues || [])
+      .filter((p: any) => p.active)
+      .map((p: any) => ({
+        label: `'${p.value}'`,
+        detail: p.label !== p.value ? p.label : undefined,
+        type: "enum",
+      }));
+    return {
+      from: context.pos - (m[2]?.length ?? 0),
+      options,
+    };
+  };
+
+  const fieldProvider = async (context: CompletionContext) => {
+    const word = context.matchBefore(/[\w.]*/);
+    if (!word || (word.from === word.to && !context.explicit)) return null;
+    const prev = context.state.sliceDoc(0, word.from);
+    // Object names and quoted values have their own providers
+    if (/(FROM|INTO|UPDATE|DELETE|MERGE)\s*$/i.test(prev)) return null;
+    if ((prev.match(/'/g) || []).length % 2 === 1) return null;
+
+    const scopes = scopesAt(context.state.doc.toString(), context.pos);
+    const objectName = await scopeObject(scopes);
+    const base = objectName ? await tryDescribe(objectName) : null;
+    if (!base) return null;
+    const path = word.text.split(".");
+    const desc = await followPath(
+      scopes[scopes.length - 1],
+      base,
+      path.slice(0, -1),
+    );
+    if (!desc) return null;
+
+    const options: Completion[] = desc.fields.map((f: any) => ({
+      label: f.name,
+      detail: f.type,
+      info: f.label,
+      type: "field",
+    }));
+    desc.fields
+      .filter((f: any) => f.relationshipName && f.referenceTo?.length)
+      .forEach((f: any) =>
+        options.push({
+          label: `${f.relationshipName}.`,
+          detail: f.referenceTo.join(", "),
+          info: `${f.label} lookup`,
+          type: "class",
+          boost: -1,
+        }),
+      );
+    return {
+      from: word.to - path[path.length - 1].length,
+      options,
+      validFor: /^\w*$/,
+    };
+  };
+
+  return autocompletion({
+    override: [picklistProvider, objectProvider, fieldProvider],
+    icons: true,
+  });
+}
@@ -0,0 +1,284 @@
+import { Diagnostic, linter } from "@codemirror/lint";
+import {
+  Comparison,
+  Condition,
+  FieldPath,
+  FunctionCall,
+  parseSoql,
+  SelectItem,
+  SoqlQuery,
+  Span,
+  Value,
+} from "../../services/soql-parser";
+
+/**
+ * Describe of an object; resolves to null when the org has no such object
+ * and rejects when that cannot be told (no session, network …).
+ */
+export type DescribeFn = (sObjectName: string) => Promise<any | null>;
+
+const NUMBER_TYPES = new Set(["int", "double", "currency", "percent", "long"]);
+const TEXT_TYPES = new Set([
+  "string",
+  "textarea",
+  "email",
+  "phone",
+  "url",
+  "picklist",
+  "combobox",
+  "encryptedstring",
+]);
+const RANGE_OPERATORS = new Set(["<", "<=", ">", ">="]);
+
+const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+class Checker {
+  readonly diagnostics: Diagnostic[] = [];
+
+  constructor(private readonly describe: DescribeFn) {}
+
+  report(
+    span: Span,
+    message: string,
+    severity: "error" | "warning" = "error",
+  ) {
+    this.diagnostics.push({ from: span.from, to: span.to, severity, message });
+  }
+
+  private async describeOrSkip(name: string) {
+    try {
+      return await this.describe(name);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Walk Owner.Profile.Name down the lookups and return Name's describe. */
+  private async resolveField(
+    desc: any,
+    alias: string | undefined,
+    field: FieldPath,
+  ) {
+    let path = field.path;
+    let segments = field.segments;
+    if (
+      path.length > 1 &&
+      (eq(path[0], desc.name) || (alias !== undefined && eq(path[0], alias)))
+    ) {
+      path = path.slice(1);
+      segments = segments.slice(1);
+    }
+    let current = desc;
+    for (let i = 0; i < path.length - 1; i++) {
+      const rel = current.fields.find(
+        (f: any) => f.relationshipName && eq(f.relationshipName, path[i]),
+      );
+      if (!rel) {
+        this.report(
+          segments[i],
+          `${current.name} has no relationship ${path[i]}` +
+            (current.fields.some((f: any) => eq(f.name, path[i]))
+              ? "; use the relationship name, not the Id field"
+              : ""),
+        );
+        return null;
+      }
+      // Polymorphic lookups only expose a few common fields; leave them be
+      if ((rel.referenceTo || []).length !== 1) return null;
+      current = await this.describeOrSkip(rel.referenceTo[0]);
+      if (!current) return null;
+    }
+    const last = path[path.length - 1];
+    const meta = current.fields.find((f: any) => eq(f.name, last));
+    if (!meta) {
+      const rel = current.fields.find(
+        (f: any) => f.relationshipName && eq(f.relationshipName, last),
+      );
+      this.report(
+        segments[segments.length - 1],
+        rel
+          ? `${last} is a relationship; select one of its fields, e.g. ${last}.Name`
+          : `No field ${last} on ${current.name}`,
+      );
+      return null;
+    }
+    return meta;
+  }
+
+  private async expr(
+    desc: any,
+    alias: string | undefined,
+    e: FieldPath | FunctionCall,
+  ) {
+    if (e.kind === "field") return this.resolveField(desc, alias, e);
+    // FIELDS(ALL) takes a keyword, not a field
+    if (eq(e.name, "FIELDS")) return null;
+    for (const arg of e.args) {
+      if (arg.kind === "field" || arg.kind === "function")
+        await this.expr(desc, alias, arg);
+    }
+    return null;
+  }
+
+  async query(q: SoqlQuery, desc: any, isTop: boolean) {
+    const alias = q.sObject.alias;
+    for (const item of q.select) await this.selectItem(desc, alias, item);
+    if (q.where) await this.condition(desc, alias, q.where, true);
+    for (const g of q.groupBy ?? []) await this.expr(desc, alias, g);
+    if (q.having) await this.condition(desc, alias, q.having, false);
+    for (const o of q.orderBy ?? []) await this.expr(desc, alias, o.field);
+
+    if (isTop && !q.limit) {
+      this.report(
+        q.sObject,
+        "No LIMIT: LIMIT 100 is added unless Fetch all rows is on",
+        "warning",
+      );
+    }
+  }
+
+  private async selectItem(
+    desc: any,
+    alias: string | undefined,
+    item: SelectItem,
+  ) {
+    if (item.kind === "typeof") return;
+    if (item.kind !== "subquery") {
+      await this.expr(desc, alias, item);
+      return;
+    }
+    const sub = item.query;
+    const rel = (desc.childRelationships || []).find(
+      (r: any) =>
+        r.relationshipName && eq(r.relationshipName, sub.sObject.name),
+    );
+    if (!rel) {
+      this.report(
+        sub.sObject,
+        `${sub.sObject.name} is not a child relationship of ${desc.name}`,
+      );
+      return;
+    }
+    const child = await this.describeOrSkip(rel.childSObject);
+    if (child) await this.query(sub, child, false);
+  }
+
+  private async condition(
+    desc: any,
+    alias: string | undefined,
+    c: Condition,
+    isWhere: boolean,
+  ) {
+    if (c.kind === "comparison") {
+      const meta = await this.expr(desc, alias, c.field);
+      if (meta && isWhere) this.comparison(meta, c);
+      if (c.value.kind === "subquery") await this.semiJoin(c.value.query);
+    } else if (c.kind === "not") {
+      await this.condition(desc, alias, c.expr, isWhere);
+    } else {
+      await this.condition(desc, alias, c.left, isWhere);
+      await this.condition(desc, alias, c.right, isWhere);
+    }
+  }
+
+  private async semiJoin(q: SoqlQuery) {
+    const desc = await this.describeOrSkip(q.sObject.name);
+    if (desc === null) {
+      this.report(q.sObject, `Unknown object ${q.sObject.name}`);
+    } else if (desc) {
+      await this.query(q, desc, false);
+    }
+  }
+
+  private comparison(meta: any, c: Comparison) {
+    const op = c.operator;
+    const type: string = meta.type;
+    if (meta.filterable === false) {
+      this.report(c.field, `${meta.name} (${type}) can't be used in WHERE`);
+      return;
+    }
+    if (op === "LIKE" && !TEXT_TYPES.has(type)) {
+      this.report(c, `LIKE only works on text fields; ${meta.name} is ${type}`);
+    } else if (
+      (op === "INCLUDES" || op === "EXCLUDES") &&
+      type !== "multipicklist"
+    ) {
+      this.report(c, `${op} only works on multi-select picklists`);
+    } else if (
+      type === "multipicklist" &&
+      !["=", "!=", "INCLUDES", "EXCLUDES"].includes(op)
+    ) {
+      this.report(
+        c,
+        `Use INCLUDES or EXCLUDES on the multi-select picklist ${meta.name}`,
+      );
+    } else if (RANGE_OPERATORS.has(op) && type === "boolean") {
+      this.report(c, `${op} doesn't work on checkbox fields`);
+    }
+
+    const values = c.value.kind === "list" ? c.value.items : [c.value];
+    values.forEach((v) => this.valueType(meta, v));
+  }
+
+  private valueType(meta: any, v: Value) {
+    if (v.kind === "null" || v.kind === "bind" || v.kind === "subquery") return;
+    const type: string = meta.type;
+    // Time values have their own unquoted syntax; not worth modelling
+    if (type === "time") return;
+    if (type === "boolean") {
+      if (v.kind !== "boolean")
+        this.report(v, `${meta.name} expects TRUE or FALSE`);
+    } else if (NUMBER_TYPES.has(type)) {
+      if (v.kind === "string") this.report(v, "Numbers are not quoted");
+      else if (v.kind !== "number" && v.kind !== "currency")
+        this.report(v, `${meta.name} expects a number`);
+    } else if (type === "date" || type === "datetime") {
+      if (v.kind === "string") {
+        this.report(
+          v,
+          "Dates are not quoted: use 2024-01-31, 2024-01-31T00:00:00Z or a literal like TODAY",
+        );
+      } else if (v.kind === "date" && v.hasTime !== (type === "datetime")) {
+        this.report(
+          v,
+          type === "date"
+            ? `${meta.name} is a date; drop the time part`
+            : `${meta.name} is a datetime; use 2024-01-31T00:00:00Z`,
+        );
+      } else if (v.kind !== "date" && v.kind !== "dateLiteral") {
+        this.report(v, `${meta.name} expects a date`);
+      }
+    } else if (v.kind !== "string") {
+      this.report(v, `${meta.name} is ${type}; quote the value`);
+    }
+  }
+}
+
+/** Syntax errors, then describe-backed checks of the parsed query. */
+export async function lintSoql(text: string, describe: DescribeFn) {
+  if (!text.trim()) return [];
+  const checker = new Checker(describe);
+  const { query, error } = parseSoql(text);
+  if (error || !query) {
+    if (error) checker.report(error, error.message);
+    return checker.diagnostics;
+  }
+  let desc: any;
+  try {
+    desc = await describe(query.sObject.name);
+  } catch {
+    return checker.diagnostics;
+  }
+  if (desc === null) {
+    checker.report(query.sObject, `Unknown object ${query.sObject.name}`);
+  } else {
+    await checker.query(query, desc, true);
+  }
+  return checker.diagnostics;
+}
+
+export function soqlLinter(describe: DescribeFn) {
+  return linter((view) => lintSoql(view.state.doc.toString(), describe), {
+    delay: 500,
+  });
+}
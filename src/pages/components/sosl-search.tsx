@@ -0,0 +1,267 @@
+import React from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+  ScrollShadow,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+  addToast,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import CodeMirror from "@uiw/react-codemirror";
+import { sql } from "@codemirror/lang-sql";
+import { vscodeDark } from "@uiw/codemirror-theme-vscode";
+import { client } from "../../services/client";
+
+interface SoslSearchProps {
+  formatCellValue: (value: any, key: string) => React.ReactNode;
+}
+
+const QUERY_KEY = "sosl_last_query";
+
+const EXAMPLES = [
+  {
+    label: "Where does an email address appear",
+    query:
+      "FIND {jane@example.com} IN EMAIL FIELDS RETURNING Contact(Id, Name, Email), Lead(Id, Name, Email), User(Id, Name, Email)",
+  },
+  {
+    label: "Name search across accounts and opportunities",
+    query:
+      "FIND {Acme*} IN NAME FIELDS RETURNING Account(Id, Name ORDER BY Name), Opportunity(Id, Name, StageName LIMIT 20)",
+  },
+  {
+    label: "Phone number, any object",
+    query: "FIND {555-0100} IN PHONE FIELDS",
+  },
+];
+
+const SYNTAX = [
+  ["FIND {term}", "Term in braces; * and ? are wildcards"],
+  [
+    "IN … FIELDS",
+    "ALL, NAME, EMAIL, PHONE or SIDEBAR; ALL FIELDS when omitted",
+  ],
+  [
+    "RETURNING Obj(fields …)",
+    "Objects and columns to return, each with optional WHERE, ORDER BY and LIMIT",
+  ],
+  ["LIMIT n", "Cap on the rows returned over all objects"],
+  [
+    "Escaping",
+    "Prefix ? & | ! { } [ ] ( ) ^ ~ * : \\ \" ' + - with a backslash",
+  ],
+];
+
+// SOSL search with its results grouped per returned object
+export default function SoslSearch({ formatCellValue }: SoslSearchProps) {
+  const [query, setQuery] = React.useState(
+    () => localStorage.getItem(QUERY_KEY) || EXAMPLES[0].query,
+  );
+  const [results, setResults] = React.useState<any[] | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    localStorage.setItem(QUERY_KEY, query);
+  }, [query]);
+
+  const runSearch = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await client.runSosl(query);
+      setResults(res.searchRecords ?? []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Search failed";
+      setError(message);
+      addToast({
+        title: "Error",
+        description: message,
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Object → rows, in the order Salesforce returned them
+  const groups = React.useMemo(() => {
+    const map = new Map<string, any[]>();
+    (results ?? []).forEach((r) => {
+      const type = r.attributes?.type ?? "Unknown";
+      map.set(type, [...(map.get(type) ?? []), r]);
+    });
+    return Array.from(map.entries()).map(([type, rows]) => ({
+      type,
+      rows,
+      columns: Array.from(
+        new Set(rows.flatMap((r) => Object.keys(r))),
+      ).filter((k) => k !== "attributes"),
+    }));
+  }, [results]);
+
+  return (
+    <div className="p-4 space-y-4 flex-grow overflow-auto">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            color="primary"
+            onPress={runSearch}
+            isLoading={isLoading}
+            startContent={!isLoading && <Icon icon="lucide:search" />}
+          >
+            Search
+          </Button>
+          <Popover placement="bottom-start">
+            <PopoverTrigger>
+              <Button
+                size="sm"
+                variant="flat"
+                startContent={<Icon icon="lucide:circle-help" />}
+              >
+                Syntax
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="p-3 max-w-md">
+              <div className="space-y-3 text-xs">
+                <p className="font-mono text-default-600">
+                  FIND {"{term}"} [IN scope FIELDS] [RETURNING Obj(fields
+                  [WHERE …] [ORDER BY …] [LIMIT n]), …] [LIMIT n]
+                </p>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                  {SYNTAX.map(([term, desc]) => (
+                    <React.Fragment key={term}>
+                      <dt className="font-mono font-medium">{term}</dt>
+                      <dd className="text-default-500">{desc}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+                <div className="space-y-1">
+                  <p className="font-medium">Examples</p>
+                  {EXAMPLES.map((ex) => (
+                    <button
+                      key={ex.label}
+                      className="block text-left w-full hover:text-primary"
+                      onClick={() => setQuery(ex.query)}
+                    >
+                      <span className="text-default-500">{ex.label}</span>
+                      <span className="block font-mono truncate">
+                        {ex.query}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </PopoverContent>
+          </Popover>
+        </div>
+        <CodeMirror
+          value={query}
+          onChange={(v) => setQuery(v)}
+          height="100px"
+          theme={vscodeDark}
+          extensions={[sql()]}
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+          <div className="flex items-start gap-2">
+            <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+            <div>{error}</div>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center p-8">
+          <Spinner size="lg" color="primary" />
+          <p className="mt-4 text-default-500">Searching...</p>
+        </div>
+      ) : results === null ? (
+        <div className="flex flex-col items-center justify-center p-12 border border-dashed border-default-200 rounded-large">
+          <Icon
+            icon="lucide:search"
+            className="w-12 h-12 text-default-300 mb-4"
+          />
+          <p className="text-default-500 text-center">
+            Search text across objects
+          </p>
+          <p className="text-xs text-default-400 text-center mt-1">
+            Results are grouped by the object they were found in
+          </p>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="flex flex-col items-center justify-center p-12">
+          <Icon
+            icon="lucide:search-x"
+            className="w-12 h-12 text-default-300 mb-4"
+          />
+          <p className="text-default-500">No matches</p>
+        </div>
+      ) : (
+        groups.map((group) => (
+          <Card key={group.type} className="overflow-hidden">
+            <CardBody className="p-0">
+              <div className="flex items-center gap-2 px-3 py-2 bg-content2 border-b">
+                <Icon icon="lucide:database" className="text-default-500" />
+                <span className="text-sm font-medium">{group.type}</span>
+                <Chip size="sm" variant="flat">
+                  {group.rows.length}
+                </Chip>
+              </div>
+              <ScrollShadow className="max-h-[400px]">
+                <Table
+                  removeWrapper
+                  isHeaderSticky
+                  aria-label={`${group.type} matches`}
+                  classNames={{
+                    base: "overflow-auto",
+                    table: "min-w-full",
+                    th: "bg-default-50 dark:bg-default-100/20 text-default-600 text-xs sticky top-0 z-10",
+                    td: "py-2",
+                  }}
+                >
+                  <TableHeader>
+                    {group.columns.map((c) => (
+                      <TableColumn key={c} className="font-medium">
+                        {c}
+                      </TableColumn>
+                    ))}
+                  </TableHeader>
+                  <TableBody>
+                    {group.rows.map((rec, idx) => (
+                      <TableRow
+                        key={rec.Id ?? idx}
+                        className="hover:bg-default-50 dark:hover:bg-default-100/10"
+                      >
+                        {group.columns.map((c) => (
+                          <TableCell key={c} className="text-xs font-mono">
+                            {formatCellValue(rec[c] ?? null, c)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollShadow>
+            </CardBody>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
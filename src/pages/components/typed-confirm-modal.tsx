@@ -0,0 +1,82 @@
+import React from "react";
+import {
+  Button,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+
+interface TypedConfirmModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  title: string;
+  children: React.ReactNode;
+  // Word the user has to type before the action unlocks
+  confirmWord?: string;
+  confirmLabel?: string;
+  // Small actions can skip typing and confirm with the button alone
+  requireTyping?: boolean;
+  isLoading?: boolean;
+}
+
+// Destructive-action dialog that stays locked until the confirm word is typed
+export default function TypedConfirmModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  title,
+  children,
+  confirmWord = "DELETE",
+  confirmLabel = "Delete",
+  requireTyping = true,
+  isLoading,
+}: TypedConfirmModalProps) {
+  const [typed, setTyped] = React.useState("");
+
+  React.useEffect(() => {
+    if (isOpen) setTyped("");
+  }, [isOpen]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <ModalContent>
+        <ModalHeader className="flex items-center gap-2 text-danger">
+          <Icon icon="lucide:alert-triangle" />
+          {title}
+        </ModalHeader>
+        <ModalBody>
+          <div className="text-sm space-y-2">{children}</div>
+          {requireTyping && (
+            <Input
+              size="sm"
+              variant="bordered"
+              label={`Type ${confirmWord} to confirm`}
+              value={typed}
+              onValueChange={setTyped}
+              autoFocus
+            />
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="flat" onPress={onClose}>
+            Cancel
+          </Button>
+          <Button
+            color="danger"
+            onPress={onConfirm}
+            isDisabled={requireTyping && typed !== confirmWord}
+            isLoading={isLoading}
+            startContent={<Icon icon="lucide:trash-2" />}
+          >
+            {confirmLabel}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
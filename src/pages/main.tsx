@@ -4,6 +4,7 @@ import RecordEditor from "./record-editor";
 import SettingsPage from "./settings";
 import RequestsPage from "./requests";
 import SoqlQueryPage from "./query";
+import RecycleBinPage from "./recycle-bin";
 import { HeroUIProvider } from "@heroui/react";
 import { ToastProvider } from "@heroui/toast";
 import { createHashRouter, RouterProvider, Navigate } from "react-router";
@@ -30,6 +31,7 @@ const router = createHashRouter([
       { index: true, element: <Navigate to="/record" replace /> },
       { path: "record", element: <RecordEditor /> },
       { path: "query", element: <SoqlQueryPage /> },
+      { path: "recycle-bin", element: <RecycleBinPage /> },
       { path: "requests", element: <RequestsPage /> },
       { path: "settings", element: <SettingsPage /> },
     ],
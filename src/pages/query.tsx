@@ -16,34 +16,120 @@ import {
   Popover,
   PopoverTrigger,
   PopoverContent,
+  Progress,
+  Switch,
+  Tabs,
+  Tab,
+  Checkbox,
+  Input,
+  Select,
+  SelectItem,
   addToast,
 } from "@heroui/react";
 import { Icon } from "@iconify/react";
 import { client } from "../services/client";
+import { parseSoql, stripComments } from "../services/soql-parser";
+import EditableCell, {
+  cellValueError,
+  parseCellValue,
+} from "./components/editable-cell";
+import TypedConfirmModal from "./components/typed-confirm-modal";
+import { soqlLinter } from "./components/soql-lint";
+import { soqlCompletion } from "./components/soql-completion";
+import SoslSearch from "./components/sosl-search";
 import CodeMirror from "@uiw/react-codemirror";
 import { sql } from "@codemirror/lang-sql";
 import { vscodeDark } from "@uiw/codemirror-theme-vscode";
 import { EditorView } from "@codemirror/view";
-import {
-  autocompletion,
-  CompletionContext,
-  Completion,
-} from "@codemirror/autocomplete";
+import { lintGutter } from "@codemirror/lint";
 import { format as sqlFormat } from "sql-formatter";
 
+// Bulk deletes above this many rows need the confirm word typed
+const BULK_DELETE_CONFIRM_THRESHOLD = 10;
+
+// Rows rendered in the table; copy and export still cover every row
+const DISPLAY_LIMIT = 2000;
+const DEFAULT_ROW_CAP = 50000;
+
+function downloadCsv(columns: string[], rows: any[], fileName: string) {
+  const cell = (val: any) => {
+    if (val === null || val === undefined) return "";
+    const text = typeof val === "object" ? JSON.stringify(val) : String(val);
+    return `"${text.replace(/"/g, '""')}"`;
+  };
+  const csv = [
+    columns.join(","),
+    ...rows.map((rec) => columns.map((col) => cell(rec[col])).join(",")),
+  ].join("\n");
+
+  const blob = new Blob([csv], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export default function SoqlQueryPage() {
+  const MODE_KEY = "query_mode";
+  const [mode, setMode] = React.useState(
+    () => localStorage.getItem(MODE_KEY) || "soql",
+  );
   const QUERY_KEY = "soql_last_query";
   const [query, setQuery] = React.useState(() =>
     localStorage.getItem(QUERY_KEY) ||
     "SELECT FIELDS(STANDARD) FROM Account LIMIT 10",
   );
   const [records, setRecords] = React.useState<any[]>([]);
+  const [totalSize, setTotalSize] = React.useState(0);
   const [isLoading, setIsLoading] = React.useState(false);
+  const TOOLING_KEY = "soql_tooling";
+  const [tooling, setTooling] = React.useState(
+    () => localStorage.getItem(TOOLING_KEY) === "true",
+  );
+  // Whether the rows on screen came from the Tooling API
+  const [resultIsTooling, setResultIsTooling] = React.useState(false);
+  const FETCH_ALL_KEY = "soql_fetch_all";
+  const ROW_CAP_KEY = "soql_row_cap";
+  const [fetchAll, setFetchAll] = React.useState(
+    () => localStorage.getItem(FETCH_ALL_KEY) === "true",
+  );
+  const [rowCap, setRowCap] = React.useState(
+    () => Number(localStorage.getItem(ROW_CAP_KEY)) || DEFAULT_ROW_CAP,
+  );
+  // Rows loaded so far while following nextRecordsUrl
+  const [fetchProgress, setFetchProgress] = React.useState<{
+    loaded: number;
+    total: number;
+  } | null>(null);
+  // Bumped per run; a batch loop stops once its run is no longer current
+  const currentRun = React.useRef(0);
   const [error, setError] = React.useState<string | null>(null);
   const [copied, setCopied] = React.useState(false);
-  const [fields, setFields] = React.useState<string[]>([]);
   const editorRef = React.useRef<EditorView | null>(null);
   const [objectCount, setObjectCount] = React.useState<number | null>(null);
+  // Describe of the queried object, used to decide which cells are editable
+  const [resultFields, setResultFields] = React.useState<Map<string, any>>(
+    new Map(),
+  );
+  // Record Id → field → unsaved value
+  const [edits, setEdits] = React.useState<
+    Record<string, Record<string, any>>
+  >({});
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(
+    new Set(),
+  );
+  const [rowErrors, setRowErrors] = React.useState<
+    Record<string, string[]>
+  >({});
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = React.useState(false);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+  const [bulkField, setBulkField] = React.useState("");
+  const [bulkValue, setBulkValue] = React.useState("");
   const HISTORY_KEY = "soql_history";
   const [history, setHistory] = React.useState<{ query: string; timestamp: number }[]>(() => {
     try {
@@ -62,6 +148,19 @@ export default function SoqlQueryPage() {
     localStorage.setItem(QUERY_KEY, query);
   }, [query]);
 
+  React.useEffect(() => {
+    localStorage.setItem(MODE_KEY, mode);
+  }, [mode]);
+
+  React.useEffect(() => {
+    localStorage.setItem(TOOLING_KEY, String(tooling));
+  }, [tooling]);
+
+  React.useEffect(() => {
+    localStorage.setItem(FETCH_ALL_KEY, String(fetchAll));
+    localStorage.setItem(ROW_CAP_KEY, String(rowCap));
+  }, [fetchAll, rowCap]);
+
   React.useEffect(() => {
     client
       .loadGlobalObjects()
@@ -69,26 +168,12 @@ export default function SoqlQueryPage() {
       .catch(() => setObjectCount(null));
   }, []);
 
-  const objectName = React.useMemo(() => {
-    const m = /from\s+([a-zA-Z0-9_]+)/i.exec(query);
-    return m?.[1] ?? null;
-  }, [query]);
-
-  React.useEffect(() => {
-    if (!objectName) {
-      setFields([]);
-      return;
-    }
-    client
-      .describeSObject(objectName)
-      .then((desc) => {
-        const f = (desc.fields || []).map((fld: any) => fld.name);
-        setFields(f);
-      })
-      .catch(() => setFields([]));
-  }, [objectName]);
+  const confirmDiscard = () =>
+    Object.keys(edits).length === 0 ||
+    window.confirm("You have unsaved changes. Discard them?");
 
   const runQuery = React.useCallback(async () => {
+    if (!confirmDiscard()) return;
     let text = query;
     const cm = editorRef.current;
     if (cm) {
@@ -101,7 +186,11 @@ export default function SoqlQueryPage() {
       }
     }
 
-    if (!/limit\s+\d+/i.test(text)) {
+    text = stripComments(text);
+    const parsed = parseSoql(text).query;
+    // Fall back to a plain search when the parser gives up on the text
+    const hasLimit = parsed ? !!parsed.limit : /limit\s+\d+/i.test(text);
+    if (!hasLimit && !fetchAll) {
       text = text.replace(/;?\s*$/, "") + " LIMIT 100";
       addToast({
         title: "Info",
@@ -111,16 +200,51 @@ export default function SoqlQueryPage() {
       });
     }
 
+    const runId = ++currentRun.current;
     setIsLoading(true);
     setError(null);
+    setFetchProgress(null);
     try {
-      const result = await client.runSoql(text);
-      const recs = (result as any).records ?? result;
+      const result = await client.runSoql(text, tooling);
+      if (currentRun.current !== runId) return;
+      setResultIsTooling(tooling);
+      const cap = fetchAll ? rowCap : Infinity;
+      const recs: any[] = ((result as any).records ?? result).slice(0, cap);
       setRecords(recs);
+      setTotalSize(result.totalSize ?? recs.length);
+      setEdits({});
+      setSelectedIds(new Set());
+      setRowErrors({});
       setHistory((h) => {
         const entry = { query: text, timestamp: Date.now() };
         return [entry, ...h].slice(0, 50);
       });
+      setIsLoading(false);
+
+      // Follow nextRecordsUrl one batch per message so rows show up as
+      // they arrive instead of in one huge response
+      let next: string | undefined = fetchAll
+        ? result.nextRecordsUrl
+        : undefined;
+      let loaded = recs.length;
+      const total = Math.min(result.totalSize ?? loaded, cap);
+      while (next && loaded < cap) {
+        setFetchProgress({ loaded, total });
+        const page = await client.queryMore(next, tooling);
+        if (currentRun.current !== runId) return;
+        const batch: any[] = page.records.slice(0, cap - loaded);
+        loaded += batch.length;
+        setRecords((prev) => [...prev, ...batch]);
+        next = page.nextRecordsUrl;
+      }
+      if (next) {
+        addToast({
+          title: "Row cap reached",
+          description: `Stopped at ${loaded.toLocaleString()} of ${result.totalSize.toLocaleString()} rows`,
+          color: "warning",
+          icon: <Icon icon="lucide:info" />,
+        });
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Query failed";
       setError(message);
@@ -131,9 +255,23 @@ export default function SoqlQueryPage() {
         icon: <Icon icon="lucide:alert-triangle" />,
       });
     } finally {
-      setIsLoading(false);
+      if (currentRun.current === runId) {
+        setIsLoading(false);
+        setFetchProgress(null);
+      }
     }
-  }, [query]);
+  }, [query, fetchAll, rowCap, tooling, edits]);
+
+  const cancelFetch = () => {
+    currentRun.current++;
+    setFetchProgress(null);
+    addToast({
+      title: "Stopped",
+      description: `Kept the ${records.length.toLocaleString()} rows loaded so far`,
+      color: "primary",
+      icon: <Icon icon="lucide:square" />,
+    });
+  };
 
   const formatQuery = React.useCallback(() => {
     try {
@@ -160,38 +298,49 @@ export default function SoqlQueryPage() {
     }
   }, [records]);
 
-  const completionExtension = React.useMemo(() => {
-    const fieldProvider = (context: CompletionContext) => {
-      if (fields.length === 0) return null;
-      const word = context.matchBefore(/\w*/);
-      if (!word || (word.from === word.to && !context.explicit)) return null;
-      const options: Completion[] = fields.map((f) => ({
-        label: f,
-        type: "field",
-      }));
-      return { from: word.from, options };
-    };
+  // Describes shared by completion and lint for the life of the page
+  const describes = React.useRef(new Map<string, Promise<any>>());
+  const describeObject = React.useCallback(
+    (name: string) => {
+      const key = `${tooling ? "tooling:" : ""}${name.toLowerCase()}`;
+      let pending = describes.current.get(key);
+      if (!pending) {
+        pending = client.describeSObject(name, tooling);
+        pending.catch(() => describes.current.delete(key));
+        describes.current.set(key, pending);
+      }
+      return pending;
+    },
+    [tooling],
+  );
 
-    const objectProvider = async (context: CompletionContext) => {
-      const word = context.matchBefore(/\w*/);
-      if (!word) return null;
-      const prev = context.state.sliceDoc(0, word.from);
-      if (!/(FROM|INTO|UPDATE|DELETE|MERGE)\s*$/i.test(prev)) return null;
-      if (word.from === word.to && !context.explicit) return null;
-      const results = await client.searchGlobalObjects(word.text);
-      const opts: Completion[] = results.map((o: any) => ({
-        label: o.name,
-        info: o.label,
-        type: "table",
-      }));
-      return { from: word.from, options: opts };
-    };
+  const searchObjects = React.useCallback(
+    (prefix: string): Promise<any[]> =>
+      tooling
+        ? client.searchToolingObjects(prefix)
+        : client.searchGlobalObjects(prefix),
+    [tooling],
+  );
 
-    return autocompletion({
-      override: [fieldProvider, objectProvider],
-      icons: true,
-    });
-  }, [fields]);
+  const lintExtension = React.useMemo(
+    () =>
+      soqlLinter(async (name) => {
+        // Without the global list nothing can be called unknown
+        if (!tooling && objectCount === null)
+          throw new Error("objects not loaded");
+        const key = name.toLowerCase();
+        const hits = await searchObjects(name);
+        return hits.some((o: any) => o.name.toLowerCase() === key)
+          ? describeObject(name)
+          : null;
+      }),
+    [objectCount, tooling, describeObject, searchObjects],
+  );
+
+  const completionExtension = React.useMemo(
+    () => soqlCompletion({ describe: describeObject, searchObjects }),
+    [describeObject, searchObjects],
+  );
 
   const columns = React.useMemo(() => {
     if (records.length === 0) return [];
@@ -200,6 +349,198 @@ export default function SoqlQueryPage() {
     return Object.keys(records[0]).filter((key) => key !== "attributes");
   }, [records]);
 
+  const resultSObject: string | undefined = records[0]?.attributes?.type;
+  const visibleRecords = React.useMemo(
+    () => records.slice(0, DISPLAY_LIMIT),
+    [records],
+  );
+
+  React.useEffect(() => {
+    setResultFields(new Map());
+    // Tooling results stay read-only, so they need no describe
+    if (!resultSObject || resultIsTooling) return;
+    let cancelled = false;
+    client
+      .describeSObject(resultSObject)
+      .then((desc) => {
+        if (cancelled) return;
+        setResultFields(
+          new Map((desc.fields || []).map((f: any) => [f.name, f])),
+        );
+      })
+      // Aggregate results and the like have no describe; stay read-only
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [resultSObject, resultIsTooling]);
+
+  // Only plain updateable fields of rows that carry their Id can be edited
+  const editableColumns = React.useMemo(() => {
+    if (!columns.includes("Id")) return [];
+    return columns.filter(
+      (c) => c !== "Id" && resultFields.get(c)?.updateable,
+    );
+  }, [columns, resultFields]);
+  const isEditable = editableColumns.length > 0;
+  // Rows can be picked for bulk actions whenever they carry their Id;
+  // Tooling rows are metadata and stay read-only here
+  const isSelectable =
+    !resultIsTooling && !!resultSObject && columns.includes("Id");
+
+  // Dry-run view of a bulk delete: selected rows per object
+  const deleteSummary = React.useMemo(() => {
+    const counts = new Map<string, number>();
+    records
+      .filter((r) => selectedIds.has(r.Id))
+      .forEach((r) => {
+        const type = r.attributes?.type ?? "Unknown";
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      });
+    return Array.from(counts.entries());
+  }, [records, selectedIds]);
+
+  const dirtyCount = Object.keys(edits).length;
+
+  const valueOf = (rec: any, col: string) =>
+    edits[rec.Id] && col in edits[rec.Id] ? edits[rec.Id][col] : rec[col];
+
+  const setCellValue = (recordId: string, col: string, value: any) => {
+    const original = records.find((r) => r.Id === recordId)?.[col] ?? null;
+    setEdits((prev) => {
+      const { [col]: _, ...rest } = prev[recordId] ?? {};
+      const row = value === original ? rest : { ...rest, [col]: value };
+      const { [recordId]: __, ...others } = prev;
+      return Object.keys(row).length ? { ...others, [recordId]: row } : others;
+    });
+  };
+
+  const toggleSelected = (recordId: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(recordId)) next.delete(recordId);
+      else next.add(recordId);
+      return next;
+    });
+
+  const bulkValueError = bulkField
+    ? cellValueError(bulkValue, resultFields.get(bulkField))
+    : null;
+
+  const applyBulkValue = () => {
+    const meta = resultFields.get(bulkField);
+    if (!meta || cellValueError(bulkValue, meta)) return;
+    const value = parseCellValue(bulkValue, meta);
+    selectedIds.forEach((id) => setCellValue(id, bulkField, value));
+    addToast({
+      title: "Field set",
+      description: `${bulkField} set on ${selectedIds.size} row${selectedIds.size > 1 ? "s" : ""}, not saved yet`,
+      color: "primary",
+      icon: <Icon icon="lucide:pencil" />,
+    });
+  };
+
+  const saveEdits = async () => {
+    if (!resultSObject || dirtyCount === 0) return;
+    const pending = edits;
+    setIsSaving(true);
+    try {
+      const results = await client.saveRecords(
+        resultSObject,
+        Object.entries(pending).map(([Id, values]) => ({ Id, ...values })),
+      );
+      const saved = new Set(results.filter((r) => r.success).map((r) => r.id));
+      const failed = results.filter((r) => !r.success);
+      setRecords((recs) =>
+        recs.map((r) => (saved.has(r.Id) ? { ...r, ...pending[r.Id] } : r)),
+      );
+      setEdits((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([id]) => !saved.has(id)),
+        ),
+      );
+      setRowErrors(Object.fromEntries(failed.map((r) => [r.id, r.errors])));
+      addToast({
+        title: failed.length ? "Saved with errors" : "Saved",
+        description: failed.length
+          ? `${saved.size} saved, ${failed.length} failed; hover the marked rows for details`
+          : `${saved.size} record${saved.size > 1 ? "s" : ""} updated`,
+        color: failed.length ? "warning" : "success",
+        icon: (
+          <Icon
+            icon={failed.length ? "lucide:alert-triangle" : "lucide:check"}
+          />
+        ),
+      });
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Save failed",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSelected = async () => {
+    const doomed = records.filter((r) => selectedIds.has(r.Id));
+    if (doomed.length === 0) return;
+    setIsDeleting(true);
+    try {
+      // Backup first, with every field re-read from the org rather than the
+      // queried columns, one CSV per object. Nothing is deleted if a read
+      // fails; a blocked or cancelled download can't be detected from here
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      for (const [type] of deleteSummary) {
+        const full = await client.retrieveRecords(
+          type,
+          doomed.filter((r) => r.attributes?.type === type).map((r) => r.Id),
+        );
+        const fullColumns = Array.from(
+          new Set(full.flatMap((r) => Object.keys(r))),
+        ).filter((k) => k !== "attributes");
+        downloadCsv(fullColumns, full, `soql_backup_${type}_${stamp}.csv`);
+      }
+      const results = await client.deleteRecords(doomed.map((r) => r.Id));
+      const deleted = new Set(
+        results.filter((r) => r.success).map((r) => r.id),
+      );
+      const failed = results.filter((r) => !r.success);
+      setRecords((recs) => recs.filter((r) => !deleted.has(r.Id)));
+      setEdits((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([id]) => !deleted.has(id)),
+        ),
+      );
+      setSelectedIds(new Set(failed.map((r) => r.id)));
+      setRowErrors(Object.fromEntries(failed.map((r) => [r.id, r.errors])));
+      setIsDeleteOpen(false);
+      addToast({
+        title: failed.length ? "Deleted with errors" : "Deleted",
+        description: failed.length
+          ? `${deleted.size} deleted, ${failed.length} failed and stay selected`
+          : `${deleted.size} record${deleted.size > 1 ? "s" : ""} moved to the recycle bin`,
+        color: failed.length ? "warning" : "success",
+        icon: (
+          <Icon
+            icon={failed.length ? "lucide:alert-triangle" : "lucide:check"}
+          />
+        ),
+      });
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Delete failed",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   // Format cell value for display
   const formatCellValue = React.useCallback((value: any, key: string) => {
     if (value === null || value === undefined) {
@@ -300,28 +641,49 @@ export default function SoqlQueryPage() {
             <div className="flex items-center gap-2">
               <Icon icon="lucide:terminal" className="text-primary text-xl" />
               <div>
-                <h1 className="text-lg font-semibold">SOQL Query</h1>
+                <h1 className="text-lg font-semibold">
+                  {mode === "sosl" ? "SOSL Search" : "SOQL Query"}
+                </h1>
                 <p className="text-sm text-default-500">
-                  Execute SOQL against the current org
+                  {mode === "sosl"
+                    ? "Search text across objects in the current org"
+                    : "Execute SOQL against the current org"}
                   {objectCount !== null && (
                     <span className="ml-2 text-default-400">{objectCount} objects</span>
                   )}
                 </p>
               </div>
             </div>
-            <Button
-              color="primary"
-              onPress={runQuery}
-              startContent={<Icon icon="lucide:play" />}
-              isLoading={isLoading}
-            >
-              Run Query
-            </Button>
+            <div className="flex items-center gap-3">
+              <Tabs
+                size="sm"
+                aria-label="Query language"
+                selectedKey={mode}
+                onSelectionChange={(key) => setMode(String(key))}
+              >
+                <Tab key="soql" title="SOQL" />
+                <Tab key="sosl" title="SOSL" />
+              </Tabs>
+              {mode === "soql" && (
+                <Button
+                  color="primary"
+                  onPress={runQuery}
+                  startContent={<Icon icon="lucide:play" />}
+                  isLoading={isLoading}
+                >
+                  Run Query
+                </Button>
+              )}
+            </div>
           </div>
         </CardBody>
       </Card>
 
-      <div className="p-4 space-y-4 flex-grow overflow-auto">
+      {mode === "sosl" && <SoslSearch formatCellValue={formatCellValue} />}
+      {/* Hidden rather than unmounted so SOQL results survive a SOSL detour */}
+      <div
+        className={`p-4 space-y-4 flex-grow overflow-auto ${mode === "sosl" ? "hidden" : ""}`}
+      >
         <div className="space-y-2">
           <div className="flex items-center gap-2">
             <Button
@@ -381,6 +743,43 @@ export default function SoqlQueryPage() {
                 />
               </Button>
             </Tooltip>
+            <div className="ml-auto flex items-center gap-2">
+              <Tooltip content="Query ApexClass, ApexLog, CustomField and other Tooling API objects">
+                <Switch
+                  size="sm"
+                  isSelected={tooling}
+                  onValueChange={(v) => confirmDiscard() && setTooling(v)}
+                  color="secondary"
+                >
+                  <span className="text-xs whitespace-nowrap">Tooling API</span>
+                </Switch>
+              </Tooltip>
+              <Switch
+                size="sm"
+                isSelected={fetchAll}
+                onValueChange={setFetchAll}
+                color="primary"
+              >
+                <span className="text-xs whitespace-nowrap">
+                  Fetch all rows
+                </span>
+              </Switch>
+              {fetchAll && (
+                <Input
+                  size="sm"
+                  type="number"
+                  aria-label="Row cap"
+                  className="w-32"
+                  startContent={
+                    <span className="text-xs text-default-400">Cap</span>
+                  }
+                  value={String(rowCap)}
+                  onValueChange={(v) =>
+                    setRowCap(Math.max(1, Math.floor(Number(v)) || 1))
+                  }
+                />
+              )}
+            </div>
           </div>
           <CodeMirror
             value={query}
@@ -388,7 +787,12 @@ export default function SoqlQueryPage() {
             onCreateEditor={(view) => (editorRef.current = view)}
             height="150px"
             theme={vscodeDark}
-            extensions={[sql(), completionExtension]}
+            extensions={[
+              sql(),
+              completionExtension,
+              lintExtension,
+              lintGutter(),
+            ]}
           />
         </div>
         {error && (
@@ -408,14 +812,139 @@ export default function SoqlQueryPage() {
           <Card className="overflow-hidden">
             <CardBody className="p-0">
               <div className="flex items-center justify-between px-3 py-2 bg-content2 border-b">
-                <div className="text-sm">
-                  <span className="font-medium">{records.length}</span>
-                  <span className="text-default-500">
-                    {" "}
-                    row{records.length > 1 ? "s" : ""} returned
+                <div className="text-sm flex items-center gap-2">
+                  <span>
+                    <span className="font-medium">
+                      {records.length.toLocaleString()}
+                    </span>
+                    <span className="text-default-500">
+                      {" "}
+                      row{records.length > 1 ? "s" : ""} returned
+                    </span>
                   </span>
+                  {fetchProgress ? (
+                    <>
+                      <Progress
+                        size="sm"
+                        aria-label="Fetching rows"
+                        className="w-40"
+                        value={fetchProgress.loaded}
+                        maxValue={fetchProgress.total}
+                      />
+                      <span className="text-xs text-default-500">
+                        {fetchProgress.loaded.toLocaleString()} /{" "}
+                        {fetchProgress.total.toLocaleString()}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="light"
+                        onPress={cancelFetch}
+                        startContent={<Icon icon="lucide:square" />}
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    records.length < totalSize && (
+                      <Tooltip content="Turn on Fetch all rows to page through the rest">
+                        <Chip size="sm" variant="flat" color="warning">
+                          {totalSize.toLocaleString()} match
+                        </Chip>
+                      </Tooltip>
+                    )
+                  )}
+                  {records.length > DISPLAY_LIMIT && (
+                    <span className="text-xs text-default-400">
+                      showing the first {DISPLAY_LIMIT.toLocaleString()};
+                      copy or export for all rows
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
+                  {isSelectable && (
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      color="danger"
+                      isDisabled={selectedIds.size === 0 || isSaving}
+                      onPress={() => setIsDeleteOpen(true)}
+                      startContent={<Icon icon="lucide:trash-2" />}
+                    >
+                      Delete selected ({selectedIds.size})
+                    </Button>
+                  )}
+                  {isEditable && (
+                    <>
+                      <Popover placement="bottom-end">
+                        <PopoverTrigger>
+                          <Button
+                            size="sm"
+                            variant="flat"
+                            isDisabled={selectedIds.size === 0}
+                            startContent={<Icon icon="lucide:list-checks" />}
+                          >
+                            Set field ({selectedIds.size})
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="p-3 w-72">
+                          <div className="flex flex-col gap-2 w-full">
+                            <Select
+                              size="sm"
+                              label="Field"
+                              selectedKeys={bulkField ? [bulkField] : []}
+                              onSelectionChange={(keys) =>
+                                setBulkField(String(Array.from(keys)[0] ?? ""))
+                              }
+                            >
+                              {editableColumns.map((c) => (
+                                <SelectItem key={c}>{c}</SelectItem>
+                              ))}
+                            </Select>
+                            <Input
+                              size="sm"
+                              label="Value"
+                              placeholder="Empty sets null"
+                              value={bulkValue}
+                              onValueChange={setBulkValue}
+                              isInvalid={!!bulkValueError}
+                              errorMessage={bulkValueError}
+                            />
+                            <Button
+                              size="sm"
+                              color="primary"
+                              isDisabled={!bulkField || !!bulkValueError}
+                              onPress={applyBulkValue}
+                            >
+                              Apply to selected rows
+                            </Button>
+                          </div>
+                        </PopoverContent>
+                      </Popover>
+                      {dirtyCount > 0 && (
+                        <Button
+                          size="sm"
+                          variant="light"
+                          onPress={() => setEdits({})}
+                          isDisabled={isSaving}
+                        >
+                          Discard
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        color="primary"
+                        onPress={saveEdits}
+                        isLoading={isSaving}
+                        isDisabled={dirtyCount === 0}
+                        startContent={
+                          !isSaving && <Icon icon="lucide:save" />
+                        }
+                      >
+                        Save {dirtyCount > 0 ? `${dirtyCount} ` : ""}row
+                        {dirtyCount === 1 ? "" : "s"}
+                      </Button>
+                    </>
+                  )}
                   <Tooltip content={copied ? "Copied!" : "Copy as JSON"}>
                     <Button
                       size="sm"
@@ -438,36 +967,11 @@ export default function SoqlQueryPage() {
                       variant="flat"
                       onPress={() => {
                         try {
-                          // Create CSV content
-                          const headers = columns.join(",");
-                          const rows = records.map((rec) =>
-                            columns
-                              .map((col) => {
-                                const val = rec[col];
-                                if (val === null || val === undefined)
-                                  return "";
-                                if (typeof val === "object")
-                                  return JSON.stringify(val).replace(
-                                    /"/g,
-                                    '""',
-                                  );
-                                return String(val).replace(/"/g, '""');
-                              })
-                              .join(","),
+                          downloadCsv(
+                            columns,
+                            records,
+                            `soql_export_${new Date().toISOString().slice(0, 10)}.csv`,
                           );
-                          const csv = [headers, ...rows].join("\n");
-
-                          // Create download link
-                          const blob = new Blob([csv], { type: "text/csv" });
-                          const url = URL.createObjectURL(blob);
-                          const a = document.createElement("a");
-                          a.href = url;
-                          a.download = `soql_export_${new Date().toISOString().slice(0, 10)}.csv`;
-                          document.body.appendChild(a);
-                          a.click();
-                          document.body.removeChild(a);
-                          URL.revokeObjectURL(url);
-
                           addToast({
                             title: "Exported",
                             description: "Data exported as CSV",
@@ -507,23 +1011,106 @@ export default function SoqlQueryPage() {
                   }}
                 >
                   <TableHeader>
-                    {columns.map((c) => (
-                      <TableColumn key={c} className="font-medium">
-                        {c}
-                      </TableColumn>
-                    ))}
+                    {[
+                      ...(isSelectable
+                        ? [
+                            <TableColumn key="__select" className="w-8">
+                              <Tooltip
+                                isDisabled={
+                                  records.length === visibleRecords.length
+                                }
+                                content={`Selects the ${visibleRecords.length.toLocaleString()} rows shown, not all ${records.length.toLocaleString()}`}
+                              >
+                                <Checkbox
+                                  size="sm"
+                                  aria-label={`Select the ${visibleRecords.length} rows shown`}
+                                  isSelected={
+                                    selectedIds.size === visibleRecords.length
+                                  }
+                                  isIndeterminate={
+                                    selectedIds.size > 0 &&
+                                    selectedIds.size < visibleRecords.length
+                                  }
+                                  onValueChange={(on) =>
+                                    setSelectedIds(
+                                      on
+                                        ? new Set(
+                                            visibleRecords.map((r) => r.Id),
+                                          )
+                                        : new Set(),
+                                    )
+                                  }
+                                />
+                              </Tooltip>
+                            </TableColumn>,
+                          ]
+                        : []),
+                      ...columns.map((c) => (
+                        <TableColumn key={c} className="font-medium">
+                          {c}
+                        </TableColumn>
+                      )),
+                    ]}
                   </TableHeader>
                   <TableBody>
-                    {records.map((rec, idx) => (
+                    {visibleRecords.map((rec, idx) => (
                       <TableRow
                         key={idx}
                         className="hover:bg-default-50 dark:hover:bg-default-100/10"
                       >
-                        {columns.map((c) => (
-                          <TableCell key={c} className="text-xs font-mono">
-                            {formatCellValue(rec[c], c)}
-                          </TableCell>
-                        ))}
+                        {[
+                          ...(isSelectable
+                            ? [
+                                <TableCell key="__select">
+                                  <div className="flex items-center gap-1">
+                                    <Checkbox
+                                      size="sm"
+                                      aria-label={`Select ${rec.Id}`}
+                                      isSelected={selectedIds.has(rec.Id)}
+                                      onValueChange={() =>
+                                        toggleSelected(rec.Id)
+                                      }
+                                    />
+                                    {rowErrors[rec.Id] && (
+                                      <Tooltip
+                                        color="danger"
+                                        content={
+                                          <div className="max-w-xs text-xs">
+                                            {rowErrors[rec.Id].map((e, i) => (
+                                              <div key={i}>{e}</div>
+                                            ))}
+                                          </div>
+                                        }
+                                      >
+                                        <Icon
+                                          icon="lucide:alert-circle"
+                                          className="text-danger"
+                                        />
+                                      </Tooltip>
+                                    )}
+                                  </div>
+                                </TableCell>,
+                              ]
+                            : []),
+                          ...columns.map((c) => (
+                            <TableCell key={c} className="text-xs font-mono">
+                              {editableColumns.includes(c) ? (
+                                <EditableCell
+                                  value={valueOf(rec, c)}
+                                  fieldMeta={resultFields.get(c)}
+                                  isDirty={
+                                    !!edits[rec.Id] && c in edits[rec.Id]
+                                  }
+                                  onCommit={(v) => setCellValue(rec.Id, c, v)}
+                                >
+                                  {formatCellValue(valueOf(rec, c), c)}
+                                </EditableCell>
+                              ) : (
+                                formatCellValue(rec[c], c)
+                              )}
+                            </TableCell>
+                          )),
+                        ]}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -546,6 +1133,34 @@ export default function SoqlQueryPage() {
           </div>
         )}
       </div>
+
+      <TypedConfirmModal
+        isOpen={isDeleteOpen}
+        onClose={() => setIsDeleteOpen(false)}
+        onConfirm={deleteSelected}
+        isLoading={isDeleting}
+        requireTyping={selectedIds.size > BULK_DELETE_CONFIRM_THRESHOLD}
+        title={`Delete ${selectedIds.size} record${selectedIds.size > 1 ? "s" : ""}`}
+        confirmLabel={`Delete ${selectedIds.size}`}
+      >
+        <ul className="space-y-1">
+          {deleteSummary.map(([type, count]) => (
+            <li key={type} className="flex justify-between">
+              <span className="font-mono">{type}</span>
+              <span>
+                {count} row{count > 1 ? "s" : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-default-500">
+          A CSV backup with every field of the selected rows is downloaded
+          before anything is deleted; if the browser blocks downloads, no
+          backup is kept. Deleted
+          records go to the recycle bin, and cascade-deleted child records go
+          with them.
+        </p>
+      </TypedConfirmModal>
     </div>
   );
 }
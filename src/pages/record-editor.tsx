@@ -2,10 +2,7 @@ import React from "react";
 import {
   Button,
   Input,
-  Textarea,
   Switch,
-  Select,
-  SelectItem,
   Card,
   CardBody,
   Spinner,
@@ -13,214 +10,91 @@ import {
   Tooltip,
   Tabs,
   Tab,
-  DatePicker,
+  Breadcrumbs,
+  BreadcrumbItem,
   Popover,
   PopoverTrigger,
   PopoverContent,
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownSection,
+  DropdownItem,
   addToast,
 } from "@heroui/react";
 import { Icon } from "@iconify/react";
-import { parseDate, parseDateTime } from "@internationalized/date";
-import { client } from "../services/client";
-
-// Helper function to render the correct input type based on field metadata
-const renderField = (
-  key: string,
-  value: any,
-  fieldMeta: any,
-  handleChange: (name: string, value: any) => void,
-) => {
-  const isDisabled = !fieldMeta || !fieldMeta.updateable;
-
-  switch (fieldMeta.type) {
-    case "picklist":
-      return (
-        <Select
-          label={fieldMeta.label}
-          name={key}
-          selectedKeys={value === null ? [] : [String(value)]}
-          onSelectionChange={(keys) => {
-            const selectedValue = Array.from(keys)[0] || null;
-            handleChange(key, selectedValue);
-          }}
-          isDisabled={isDisabled}
-          className="w-full"
-          variant="bordered"
-          size="sm"
-          aria-label={fieldMeta.label}
-          placeholder={fieldMeta.nillable ? "-- None --" : "Select a value"}
-          selectionMode="single"
-          disallowEmptySelection={!fieldMeta.nillable}
-          classNames={{
-            trigger: "min-h-unit-10",
-          }}
-        >
-          {fieldMeta.picklistValues.map((option: any) => (
-            <SelectItem key={option.value}>{option.label}</SelectItem>
-          ))}
-        </Select>
-      );
-
-    case "multipicklist":
-      const selectedValues = value ? value.split(";") : [];
-      return (
-        <Select
-          label={fieldMeta.label}
-          name={key}
-          selectionMode="multiple"
-          selectedKeys={new Set(selectedValues)}
-          onSelectionChange={(keys) => {
-            const values = Array.from(keys);
-            handleChange(key, values.join(";"));
-          }}
-          isDisabled={isDisabled}
-          className="w-full"
-          variant="bordered"
-          size="sm"
-          aria-label={fieldMeta.label}
-        >
-          {fieldMeta.picklistValues.map((option: any) => (
-            <SelectItem key={option.value}>{option.label}</SelectItem>
-          ))}
-        </Select>
-      );
-
-    case "textarea":
-      return (
-        <Textarea
-          label={fieldMeta.label}
-          name={key}
-          value={value === null ? "" : String(value)}
-          onValueChange={(val) => handleChange(key, val)}
-          isDisabled={isDisabled}
-          className="min-h-[80px]"
-          variant="bordered"
-          size="sm"
-        />
-      );
-
-    case "boolean":
-      return (
-        <div className="flex items-center h-full pt-4">
-          <Switch
-            id={key}
-            name={key}
-            isSelected={!!value}
-            onValueChange={(checked) => handleChange(key, checked)}
-            isDisabled={isDisabled}
-            size="sm"
-          >
-            {value ? "Yes" : "No"}
-          </Switch>
-        </div>
-      );
+import { useNavigate } from "react-router";
+import {
+  client,
+  FieldDetails,
+  RECORD_ID_PATTERN,
+  RecordTarget,
+  ReferenceName,
+} from "../services/client";
+import {
+  availablePicklistValues,
+  clearInvalidDependents,
+  renderField,
+  useRecordTypePicklists,
+} from "./components/field-input";
+import RelatedLists from "./components/related-lists";
+import ChangeJournal from "./components/change-journal";
+import JsonRecordEditor from "./components/json-record-editor";
+import RecordCompare from "./components/record-compare";
+import FieldHistory from "./components/field-history";
+import AccessPanel from "./components/access-panel";
+import FilesPanel from "./components/files-panel";
+import ActivityTimeline from "./components/activity-timeline";
+import { useFieldPreferences } from "./components/field-preferences";
+import NewRecordForm from "./components/new-record-form";
+import TypedConfirmModal from "./components/typed-confirm-modal";
+import SavePreviewModal, {
+  modstampOf,
+} from "./components/save-preview-modal";
 
-    case "date":
-      let dateValue = null;
-      try {
-        if (value) {
-          // Try to parse the date string into a CalendarDate
-          dateValue = parseDate(String(value).split("T")[0]);
-        }
-      } catch (e) {
-        console.error("Error parsing date:", e);
-      }
+// Layout menu keys; the prefix keeps user layout names apart from actions
+const LAYOUT_KEY_PREFIX = "layout:";
 
-      return (
-        <DatePicker
-          label={fieldMeta.label}
-          value={dateValue}
-          onChange={(date) => {
-            // Convert CalendarDate to ISO string for storage
-            const dateString = date ? date.toString() : null;
-            handleChange(key, dateString);
-          }}
-          isDisabled={isDisabled}
-          className="w-full"
-          variant="bordered"
-          size="sm"
-        />
-      );
+// Labelled block of formula-like text in the schema popover
+const SchemaCode = ({ label, code }: { label: string; code: string }) => (
+  <div className="mt-2">
+    <span className="text-xs text-default-500">{label}:</span>
+    <pre className="mt-1 p-2 rounded-small bg-default-100 text-xs whitespace-pre-wrap break-all max-h-40 overflow-auto">
+      {code}
+    </pre>
+  </div>
+);
 
-    case "datetime":
-      let dateTimeValue = null;
-      try {
-        if (value) {
-          // Try to parse the datetime string into a CalendarDateTime
-          const dateStr = new Date(value).toISOString();
-          const datePart = dateStr.split("T")[0];
-          const timePart = dateStr.split("T")[1].substring(0, 5); // HH:MM
-          dateTimeValue = parseDateTime(`${datePart}T${timePart}`);
-        }
-      } catch (e) {
-        console.error("Error parsing datetime:", e);
-      }
-
-      return (
-        <DatePicker
-          label={fieldMeta.label}
-          value={dateTimeValue}
-          onChange={(date) => {
-            // Convert CalendarDateTime to ISO string for storage
-            const dateString = date ? date.toString() : null;
-            handleChange(key, dateString);
-          }}
-          isDisabled={isDisabled}
-          className="w-full"
-          variant="bordered"
-          size="sm"
-          granularity="minute"
-        />
-      );
+// Add a new component to display field schema details
+const FieldSchemaInfo = ({
+  fieldMeta,
+  sObjectName,
+}: {
+  fieldMeta: any;
+  sObjectName: string;
+}) => {
+  const [details, setDetails] = React.useState<FieldDetails | null>(null);
+  const [detailsError, setDetailsError] = React.useState<string | null>(null);
 
-    case "reference":
-      return (
-        <Input
-          type="text"
-          label={fieldMeta.label}
-          name={key}
-          value={value === null ? "" : String(value)}
-          isDisabled={true}
-          placeholder="Reference Field (read-only)"
-          variant="bordered"
-          size="sm"
-          startContent={
-            <Icon icon="lucide:link" className="text-default-400 text-sm" />
-          }
-        />
+  // Tooling data is fetched when the popover opens, not per field row
+  React.useEffect(() => {
+    if (!fieldMeta) return;
+    let cancelled = false;
+    client
+      .getFieldDetails(sObjectName, fieldMeta.name)
+      .then((res) => !cancelled && setDetails(res))
+      .catch(
+        (err) =>
+          !cancelled &&
+          setDetailsError(
+            err instanceof Error ? err.message : "Failed to load details",
+          ),
       );
+    return () => {
+      cancelled = true;
+    };
+  }, [sObjectName, fieldMeta?.name]);
 
-    default:
-      return (
-        <Input
-          type={
-            fieldMeta.type === "currency" ||
-            fieldMeta.type === "double" ||
-            fieldMeta.type === "int"
-              ? "number"
-              : "text"
-          }
-          label={fieldMeta.label}
-          name={key}
-          value={value === null ? "" : String(value)}
-          onChange={(e) => handleChange(key, e.target.value)}
-          isDisabled={isDisabled}
-          variant="bordered"
-          size="sm"
-          startContent={
-            fieldMeta.type === "currency" ? (
-              <div className="pointer-events-none flex items-center">
-                <span className="text-default-400 text-sm">$</span>
-              </div>
-            ) : null
-          }
-        />
-      );
-  }
-};
-
-// Add a new component to display field schema details
-const FieldSchemaInfo = ({ fieldMeta }: { fieldMeta: any }) => {
   if (!fieldMeta) return null;
 
   const schemaDetails = [
@@ -240,11 +114,31 @@ const FieldSchemaInfo = ({ fieldMeta }: { fieldMeta: any }) => {
     },
   ];
 
+  // The describe already carries most of this; Tooling fills the gaps
+  const custom = details?.customField;
+  const formula = custom?.formula ?? fieldMeta.calculatedFormula;
+  const defaultValue =
+    custom?.defaultValue ??
+    fieldMeta.defaultValueFormula ??
+    (fieldMeta.defaultValue != null ? String(fieldMeta.defaultValue) : null);
+  const helpText = custom?.inlineHelpText ?? fieldMeta.inlineHelpText;
+
   return (
-    <div className="p-2 max-w-xs">
+    <div className="p-2 max-w-sm">
       <h3 className="text-sm font-semibold mb-2 flex items-center gap-2">
         <Icon icon="lucide:info" className="text-primary" />
         Field Schema
+        {details && (
+          <a
+            href={details.setupUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="ml-auto text-xs font-normal text-primary flex items-center gap-1 hover:underline"
+          >
+            Setup
+            <Icon icon="lucide:external-link" width={12} />
+          </a>
+        )}
       </h3>
       <div className="space-y-1">
         {schemaDetails.map((detail) => (
@@ -253,6 +147,22 @@ const FieldSchemaInfo = ({ fieldMeta }: { fieldMeta: any }) => {
             <span className="font-medium break-words">{detail.value}</span>
           </div>
         ))}
+        {helpText && (
+          <div className="grid grid-cols-2 text-xs">
+            <span className="text-default-500">Help Text:</span>
+            <span className="break-words">{helpText}</span>
+          </div>
+        )}
+        {custom?.description && (
+          <div className="grid grid-cols-2 text-xs">
+            <span className="text-default-500">Description:</span>
+            <span className="break-words">{custom.description}</span>
+          </div>
+        )}
+        {formula && <SchemaCode label="Formula" code={formula} />}
+        {defaultValue && (
+          <SchemaCode label="Default Value" code={defaultValue} />
+        )}
         {fieldMeta.picklistValues && fieldMeta.picklistValues.length > 0 && (
           <div className="mt-2">
             <span className="text-xs text-default-500">Picklist Values:</span>
@@ -271,11 +181,112 @@ const FieldSchemaInfo = ({ fieldMeta }: { fieldMeta: any }) => {
             </div>
           </div>
         )}
+        {details && details.validationRules.length > 0 && (
+          <div className="mt-2">
+            <span className="text-xs text-default-500">
+              Validation Rules:
+            </span>
+            <div className="mt-1 space-y-2">
+              {details.validationRules.map((rule) => (
+                <div key={rule.id} className="text-xs">
+                  <div className="flex items-center gap-1">
+                    <a
+                      href={rule.setupUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="font-medium text-primary hover:underline"
+                    >
+                      {rule.name}
+                    </a>
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color={rule.active ? "success" : "default"}
+                    >
+                      {rule.active ? "active" : "inactive"}
+                    </Chip>
+                  </div>
+                  <p className="text-default-500">{rule.errorMessage}</p>
+                  {rule.formula && (
+                    <pre className="mt-1 p-2 rounded-small bg-default-100 whitespace-pre-wrap break-all max-h-32 overflow-auto">
+                      {rule.formula}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {!details && !detailsError && (
+          <div className="flex items-center gap-2 mt-2 text-xs text-default-400">
+            <Spinner size="sm" />
+            Loading setup details...
+          </div>
+        )}
+        {detailsError && (
+          <p className="mt-2 text-xs text-warning">
+            Setup details unavailable: {detailsError}
+          </p>
+        )}
       </div>
     </div>
   );
 };
 
+interface HistoryEntry {
+  // null → record from the current tab URL
+  target: RecordTarget | null;
+  label?: string;
+}
+
+// Small Id box used in the header and on the empty/error screens
+const OpenByIdInput = ({
+  onOpen,
+  className,
+}: {
+  onOpen: (recordId: string) => void;
+  className?: string;
+}) => {
+  const [value, setValue] = React.useState("");
+  const trimmed = value.trim();
+  const isValid = RECORD_ID_PATTERN.test(trimmed);
+
+  const submit = () => {
+    if (!isValid) return;
+    onOpen(trimmed);
+    setValue("");
+  };
+
+  return (
+    <Input
+      type="text"
+      size="sm"
+      placeholder="Open by Id..."
+      value={value}
+      onValueChange={setValue}
+      onKeyDown={(e) => e.key === "Enter" && submit()}
+      isInvalid={trimmed !== "" && !isValid}
+      className={className}
+      classNames={{ input: "font-mono" }}
+      startContent={
+        <Icon icon="lucide:hash" className="text-default-400" width={16} />
+      }
+      endContent={
+        <Button
+          isIconOnly
+          size="sm"
+          variant="light"
+          className="h-6 w-6 min-w-0"
+          isDisabled={!isValid}
+          onPress={submit}
+        >
+          <Icon icon="lucide:arrow-right" width={14} />
+        </Button>
+      }
+    />
+  );
+};
+
 export default function RecordEditor() {
   const [record, setRecord] = React.useState<any>(null);
   const [editableRecord, setEditableRecord] = React.useState<any>(null);
@@ -288,13 +299,47 @@ export default function RecordEditor() {
   const [isDirty, setIsDirty] = React.useState<boolean>(false);
   const [showEditableOnly, setShowEditableOnly] =
     React.useState<boolean>(false);
+  const [hideEmpty, setHideEmpty] = React.useState<boolean>(false);
+  const [showChangedOnly, setShowChangedOnly] = React.useState<boolean>(false);
+  const [history, setHistory] = React.useState<HistoryEntry[]>([
+    { target: null },
+  ]);
+  const [historyIndex, setHistoryIndex] = React.useState<number>(0);
+  const target = history[historyIndex].target;
+  const [referenceNames, setReferenceNames] = React.useState<
+    Record<string, ReferenceName>
+  >({});
+  const recordTypeValues = useRecordTypePicklists(
+    sObjectName,
+    editableRecord?.RecordTypeId,
+  );
+  const {
+    pinned,
+    layouts,
+    activeLayout,
+    togglePin,
+    saveLayout,
+    deleteLayout,
+    setActiveLayout,
+  } = useFieldPreferences(sObjectName);
+  const [isCreating, setIsCreating] = React.useState<boolean>(false);
+  const [cloneSource, setCloneSource] = React.useState<any>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = React.useState<boolean>(false);
+  const [isDeleting, setIsDeleting] = React.useState<boolean>(false);
+  // Server copy fetched right before saving (null → could not re-check)
+  const [savePreview, setSavePreview] = React.useState<{ theirs: any } | null>(
+    null,
+  );
+  const [isCheckingSave, setIsCheckingSave] = React.useState<boolean>(false);
+  const [jsonErrorCount, setJsonErrorCount] = React.useState<number>(0);
+  const navigate = useNavigate();
 
   const handleGetRecord = React.useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const recordData = await client.getRecord();
+      const recordData = await client.getRecord(target);
       setRecord(recordData);
       setEditableRecord({ ...recordData });
       const objectName = recordData.attributes.type;
@@ -303,6 +348,15 @@ export default function RecordEditor() {
       try {
         const schemaData = await client.describeSObject(objectName);
         setSchema(schemaData);
+        const nameField = schemaData.fields.find((f: any) => f.nameField);
+        const label = `${schemaData.label}: ${
+          (nameField && recordData[nameField.name]) || recordData.Id
+        }`;
+        setHistory((entries) =>
+          entries.map((entry, i) =>
+            i === historyIndex ? { ...entry, label } : entry,
+          ),
+        );
       } catch (error) {
         const errorMessage =
           error instanceof Error
@@ -330,15 +384,42 @@ export default function RecordEditor() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [target, historyIndex]);
 
   React.useEffect(() => {
     handleGetRecord();
   }, [handleGetRecord]);
 
+  // Resolve lookup Ids to "<Object> · <Name>" for the reference inputs
+  React.useEffect(() => {
+    if (!record || !schema) return;
+    const ids = schema.fields
+      .filter((f: any) => f.type === "reference" && record[f.name])
+      .map((f: any) => record[f.name]);
+    if (ids.length === 0) {
+      setReferenceNames({});
+      return;
+    }
+    client
+      .getReferenceNames(ids)
+      .then(setReferenceNames)
+      .catch((error) => {
+        console.error("Failed to resolve reference names:", error);
+        setReferenceNames({});
+      });
+  }, [record, schema]);
+
   const handleInputChange = (name: string, value: any) => {
+    const schemaFields = new Map<string, any>(
+      (schema?.fields || []).map((field: any) => [field.name, field]),
+    );
     setEditableRecord((prev: any) => {
-      const newRecord = { ...prev, [name]: value };
+      const newRecord = clearInvalidDependents(
+        { ...prev, [name]: value },
+        name,
+        schemaFields,
+        recordTypeValues,
+      );
       // Check if any field has changed
       const hasChanges = Object.keys(newRecord).some(
         (key) => record && record[key] !== newRecord[key],
@@ -348,21 +429,60 @@ export default function RecordEditor() {
     });
   };
 
-  const handleSave = React.useCallback(async () => {
-    if (editableRecord) {
-      setError(null);
-      setIsLoading(true);
+  const handleJsonChange = (newRecord: any) => {
+    setEditableRecord(newRecord);
+    setIsDirty(
+      Object.keys(newRecord).some(
+        (key) => record && record[key] !== newRecord[key],
+      ),
+    );
+  };
 
-      const changes: { [key: string]: any } = { Id: editableRecord.Id };
-      Object.keys(editableRecord).forEach((key) => {
-        if (record[key] !== editableRecord[key]) {
-          changes[key] =
-            editableRecord[key] === "" ? null : editableRecord[key];
-        }
+  // Re-read the record so the preview can spot concurrent saves
+  const handleReviewSave = React.useCallback(async () => {
+    if (!record) return;
+    setIsCheckingSave(true);
+    let theirs = null;
+    try {
+      theirs = await client.getRecord({ sObjectName, recordId: record.Id });
+    } catch (error) {
+      addToast({
+        title: "Could not re-check record",
+        description: "Changes by others since loading will not be detected.",
+        color: "warning",
+        icon: <Icon icon="lucide:alert-triangle" />,
       });
+    } finally {
+      setIsCheckingSave(false);
+    }
+    setSavePreview({ theirs });
+  }, [sObjectName, record]);
+
+  const handleSave = React.useCallback(
+    async (changes: { [key: string]: any }) => {
+      setError(null);
+      setIsLoading(true);
 
       try {
+        // Someone may have saved while the preview was open; merge again
+        // against their version instead of overwriting it
+        const latest = await client.getRecord({
+          sObjectName,
+          recordId: changes.Id,
+        });
+        if (modstampOf(latest) !== modstampOf(savePreview?.theirs ?? record)) {
+          addToast({
+            title: "Record changed again",
+            description:
+              "Someone saved while you were reviewing. Check the merge again.",
+            color: "warning",
+            icon: <Icon icon="lucide:alert-triangle" />,
+          });
+          setSavePreview({ theirs: latest });
+          return;
+        }
         await client.updateRecord(sObjectName, changes);
+        setSavePreview(null);
         addToast({
           title: "Success",
           description: "Record updated successfully!",
@@ -381,11 +501,13 @@ export default function RecordEditor() {
           color: "danger",
           icon: <Icon icon="lucide:alert-triangle" />,
         });
+        setSavePreview(null);
       } finally {
         setIsLoading(false);
       }
-    }
-  }, [sObjectName, editableRecord, record, handleGetRecord]);
+    },
+    [sObjectName, record, savePreview, handleGetRecord],
+  );
 
   const handleRefresh = () => {
     if (isDirty) {
@@ -398,6 +520,68 @@ export default function RecordEditor() {
     }
   };
 
+  const confirmDiscard = () =>
+    !isDirty || window.confirm("You have unsaved changes. Discard them?");
+
+  const handleOpenRecord = (
+    objectName: string | undefined,
+    recordId: string,
+  ) => {
+    if (!confirmDiscard()) return;
+    setIsDirty(false);
+    setActiveTab("all");
+    // Opening a record drops any forward history, like a browser
+    setHistory((entries) => [
+      ...entries.slice(0, historyIndex + 1),
+      { target: { sObjectName: objectName, recordId } },
+    ]);
+    setHistoryIndex(historyIndex + 1);
+  };
+
+  const goToHistory = (index: number) => {
+    if (index < 0 || index >= history.length || index === historyIndex) return;
+    if (!confirmDiscard()) return;
+    setIsDirty(false);
+    setHistoryIndex(index);
+  };
+
+  const handleNewRecord = () => {
+    if (!confirmDiscard()) return;
+    setCloneSource(null);
+    setIsCreating(true);
+  };
+
+  const handleClone = () => {
+    // Clone what is on screen, including unsaved edits
+    setCloneSource({ ...editableRecord });
+    setIsCreating(true);
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await client.deleteRecord(sObjectName, record.Id);
+      addToast({
+        title: "Deleted",
+        description: `${sObjectName} ${record.Id} moved to the recycle bin`,
+        color: "success",
+        icon: <Icon icon="lucide:trash-2" />,
+      });
+      setIsDeleteOpen(false);
+      navigate(`/recycle-bin?object=${encodeURIComponent(sObjectName)}`);
+    } catch (error) {
+      addToast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to delete record",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   const handleReset = () => {
     if (record) {
       setEditableRecord({ ...record });
@@ -412,6 +596,20 @@ export default function RecordEditor() {
     }
   };
 
+  if (isCreating) {
+    return (
+      <NewRecordForm
+        initialSObjectName={sObjectName || undefined}
+        cloneFrom={cloneSource ?? undefined}
+        onCancel={() => setIsCreating(false)}
+        onCreated={(objectName, recordId) => {
+          setIsCreating(false);
+          handleOpenRecord(objectName, recordId);
+        }}
+      />
+    );
+  }
+
   if (isLoading && !record) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-6">
@@ -433,14 +631,36 @@ export default function RecordEditor() {
             </div>
           </div>
         </div>
-        <Button
-          color="primary"
-          variant="flat"
-          onPress={handleGetRecord}
-          startContent={<Icon icon="lucide:refresh-cw" />}
-        >
-          Try Again
-        </Button>
+        <div className="flex gap-2">
+          {historyIndex > 0 && (
+            <Button
+              variant="flat"
+              onPress={() => goToHistory(historyIndex - 1)}
+              startContent={<Icon icon="lucide:arrow-left" />}
+            >
+              Back
+            </Button>
+          )}
+          <Button
+            color="primary"
+            variant="flat"
+            onPress={handleGetRecord}
+            startContent={<Icon icon="lucide:refresh-cw" />}
+          >
+            Try Again
+          </Button>
+          <OpenByIdInput
+            className="w-56"
+            onOpen={(id) => handleOpenRecord(undefined, id)}
+          />
+          <Button
+            variant="flat"
+            onPress={handleNewRecord}
+            startContent={<Icon icon="lucide:file-plus" />}
+          >
+            New Record
+          </Button>
+        </div>
       </div>
     );
   }
@@ -455,15 +675,28 @@ export default function RecordEditor() {
         <h2 className="text-xl font-semibold mb-2">No Record Found</h2>
         <p className="text-default-500 text-center mb-6">
           Are you on a Salesforce record page? Navigate to a record and try
-          again.
+          again, or open one by its Id.
         </p>
-        <Button
-          color="primary"
-          onPress={handleGetRecord}
-          startContent={<Icon icon="lucide:refresh-cw" />}
-        >
-          Refresh
-        </Button>
+        <OpenByIdInput
+          className="w-72 mb-4"
+          onOpen={(id) => handleOpenRecord(undefined, id)}
+        />
+        <div className="flex gap-2">
+          <Button
+            color="primary"
+            onPress={handleGetRecord}
+            startContent={<Icon icon="lucide:refresh-cw" />}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="flat"
+            onPress={handleNewRecord}
+            startContent={<Icon icon="lucide:file-plus" />}
+          >
+            New Record
+          </Button>
+        </div>
       </div>
     );
   }
@@ -515,25 +748,69 @@ export default function RecordEditor() {
         fieldsToFilter = [...standardFields, ...customFields, ...systemFields];
     }
 
-    return fieldsToFilter.filter(([key]) => {
+    const layoutFields = activeLayout ? layouts[activeLayout] : null;
+
+    const filtered = fieldsToFilter.filter(([key]) => {
       const fieldMeta = fieldsMap.get(key);
       if (!fieldMeta) return false;
 
+      if (layoutFields && !layoutFields.includes(key)) return false;
+
       // Apply editable filter if enabled
       if (showEditableOnly && !fieldMeta.updateable) {
         return false;
       }
 
+      const isChanged = record[key] !== editableRecord[key];
+      if (showChangedOnly && !isChanged) return false;
+      // A field the user just cleared stays visible
+      if (
+        hideEmpty &&
+        !isChanged &&
+        (editableRecord[key] === null || editableRecord[key] === "")
+      ) {
+        return false;
+      }
+
       const searchTermLower = searchTerm.toLowerCase();
       return (
         fieldMeta.label.toLowerCase().includes(searchTermLower) ||
         fieldMeta.name.toLowerCase().includes(searchTermLower)
       );
     });
+
+    // Pinned fields first, then layout order, otherwise the record's order
+    const rank = (key: string) => {
+      const pin = pinned.indexOf(key);
+      if (pin >= 0) return pin;
+      if (layoutFields) return pinned.length + layoutFields.indexOf(key);
+      return Number.MAX_SAFE_INTEGER;
+    };
+    return filtered.sort(([a], [b]) => rank(a) - rank(b));
   };
 
   const filteredFields = getFilteredFields();
 
+  const handleLayoutAction = (key: React.Key) => {
+    if (key === "__all") {
+      setActiveLayout(null);
+    } else if (key === "__save") {
+      const name = window
+        .prompt("Save the visible fields as layout:", activeLayout ?? "")
+        ?.trim();
+      if (name) saveLayout(name, filteredFields.map(([field]) => field));
+    } else if (key === "__delete") {
+      if (
+        activeLayout &&
+        window.confirm(`Delete the layout "${activeLayout}"?`)
+      ) {
+        deleteLayout(activeLayout);
+      }
+    } else if (String(key).startsWith(LAYOUT_KEY_PREFIX)) {
+      setActiveLayout(String(key).slice(LAYOUT_KEY_PREFIX.length));
+    }
+  };
+
   return (
     <div className="flex flex-col h-full">
       {/* Header Section */}
@@ -555,6 +832,30 @@ export default function RecordEditor() {
               </div>
             </div>
             <div className="flex gap-2">
+              <OpenByIdInput
+                className="w-48"
+                onOpen={(id) => handleOpenRecord(undefined, id)}
+              />
+              <Tooltip content="New Record">
+                <Button isIconOnly variant="light" onPress={handleNewRecord}>
+                  <Icon icon="lucide:file-plus" className="text-default-500" />
+                </Button>
+              </Tooltip>
+              <Tooltip content="Clone Record">
+                <Button isIconOnly variant="light" onPress={handleClone}>
+                  <Icon icon="lucide:copy" className="text-default-500" />
+                </Button>
+              </Tooltip>
+              <Tooltip content="Delete Record">
+                <Button
+                  isIconOnly
+                  variant="light"
+                  color="danger"
+                  onPress={() => setIsDeleteOpen(true)}
+                >
+                  <Icon icon="lucide:trash-2" />
+                </Button>
+              </Tooltip>
               <Tooltip content="Refresh Record">
                 <Button
                   isIconOnly
@@ -579,8 +880,9 @@ export default function RecordEditor() {
               )}
               <Button
                 color="primary"
-                onPress={handleSave}
-                isDisabled={!isDirty || isLoading}
+                onPress={handleReviewSave}
+                isDisabled={!isDirty || isLoading || jsonErrorCount > 0}
+                isLoading={isCheckingSave}
                 startContent={<Icon icon="lucide:save" />}
               >
                 Save Changes
@@ -590,6 +892,53 @@ export default function RecordEditor() {
         </CardBody>
       </Card>
 
+      {/* Navigation History */}
+      {history.length > 1 && (
+        <div className="px-4 py-1 border-b dark:border-default-100 flex items-center gap-1">
+          <Tooltip content="Back">
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              isDisabled={historyIndex === 0}
+              onPress={() => goToHistory(historyIndex - 1)}
+            >
+              <Icon icon="lucide:arrow-left" width={16} />
+            </Button>
+          </Tooltip>
+          <Tooltip content="Forward">
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              isDisabled={historyIndex === history.length - 1}
+              onPress={() => goToHistory(historyIndex + 1)}
+            >
+              <Icon icon="lucide:arrow-right" width={16} />
+            </Button>
+          </Tooltip>
+          <Breadcrumbs
+            size="sm"
+            maxItems={6}
+            itemsBeforeCollapse={1}
+            itemsAfterCollapse={4}
+            className="ml-2"
+          >
+            {history.slice(0, historyIndex + 1).map((entry, i) => (
+              <BreadcrumbItem
+                key={i}
+                isCurrent={i === historyIndex}
+                onPress={() => goToHistory(i)}
+              >
+                {entry.label ??
+                  entry.target?.recordId ??
+                  "Current page"}
+              </BreadcrumbItem>
+            ))}
+          </Breadcrumbs>
+        </div>
+      )}
+
       {/* Tabs and Search */}
       <div className="px-4 border-b dark:border-default-100">
         <div className="flex flex-col sm:flex-row gap-2 justify-between items-start sm:items-center">
@@ -655,6 +1004,78 @@ export default function RecordEditor() {
                 </div>
               }
             />
+            <Tab
+              key="related"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:git-fork" width={16} height={16} />
+                  <span>Related</span>
+                </div>
+              }
+            />
+            <Tab
+              key="history"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:history" width={16} height={16} />
+                  <span>History</span>
+                </div>
+              }
+            />
+            <Tab
+              key="access"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:shield" width={16} height={16} />
+                  <span>Access</span>
+                </div>
+              }
+            />
+            <Tab
+              key="activity"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:calendar-clock" width={16} height={16} />
+                  <span>Activity</span>
+                </div>
+              }
+            />
+            <Tab
+              key="files"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:paperclip" width={16} height={16} />
+                  <span>Files</span>
+                </div>
+              }
+            />
+            <Tab
+              key="json"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:braces" width={16} height={16} />
+                  <span>JSON</span>
+                </div>
+              }
+            />
+            <Tab
+              key="compare"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:columns-2" width={16} height={16} />
+                  <span>Compare</span>
+                </div>
+              }
+            />
+            <Tab
+              key="journal"
+              title={
+                <div className="flex items-center gap-1">
+                  <Icon icon="lucide:undo-2" width={16} height={16} />
+                  <span>Journal</span>
+                </div>
+              }
+            />
           </Tabs>
 
           <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
@@ -667,6 +1088,68 @@ export default function RecordEditor() {
               >
                 <span className="text-xs whitespace-nowrap">Editable only</span>
               </Switch>
+              <Switch
+                size="sm"
+                isSelected={hideEmpty}
+                onValueChange={setHideEmpty}
+                color="primary"
+              >
+                <span className="text-xs whitespace-nowrap">Hide empty</span>
+              </Switch>
+              <Switch
+                size="sm"
+                isSelected={showChangedOnly}
+                onValueChange={setShowChangedOnly}
+                color="primary"
+              >
+                <span className="text-xs whitespace-nowrap">Changed only</span>
+              </Switch>
+              <Dropdown>
+                <DropdownTrigger>
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    startContent={<Icon icon="lucide:layout-list" />}
+                  >
+                    {activeLayout ?? "All fields"}
+                  </Button>
+                </DropdownTrigger>
+                <DropdownMenu
+                  aria-label="Field layouts"
+                  onAction={handleLayoutAction}
+                  disabledKeys={activeLayout ? [] : ["__delete"]}
+                >
+                  <DropdownSection title="Layouts" showDivider>
+                    {[
+                      <DropdownItem key="__all">All fields</DropdownItem>,
+                      ...Object.keys(layouts).map((name) => (
+                        <DropdownItem
+                          key={`${LAYOUT_KEY_PREFIX}${name}`}
+                          description={`${layouts[name].length} fields`}
+                        >
+                          {name}
+                        </DropdownItem>
+                      )),
+                    ]}
+                  </DropdownSection>
+                  <DropdownSection>
+                    <DropdownItem
+                      key="__save"
+                      startContent={<Icon icon="lucide:save" />}
+                    >
+                      Save visible fields as layout…
+                    </DropdownItem>
+                    <DropdownItem
+                      key="__delete"
+                      className="text-danger"
+                      color="danger"
+                      startContent={<Icon icon="lucide:trash-2" />}
+                    >
+                      Delete current layout
+                    </DropdownItem>
+                  </DropdownSection>
+                </DropdownMenu>
+              </Dropdown>
             </div>
             <Input
               type="text"
@@ -702,6 +1185,63 @@ export default function RecordEditor() {
             <Spinner size="lg" color="primary" />
             <span className="ml-2">Loading schema...</span>
           </div>
+        ) : activeTab === "related" ? (
+          <RelatedLists
+            sObjectName={sObjectName}
+            recordId={record.Id}
+            searchTerm={searchTerm}
+            onOpenRecord={handleOpenRecord}
+          />
+        ) : activeTab === "history" ? (
+          <FieldHistory
+            sObjectName={sObjectName}
+            objectLabel={schema.label}
+            record={record}
+            fieldsMap={fieldsMap}
+            searchTerm={searchTerm}
+          />
+        ) : activeTab === "access" ? (
+          <AccessPanel
+            sObjectName={sObjectName}
+            recordId={record.Id}
+            onOpenRecord={handleOpenRecord}
+          />
+        ) : activeTab === "activity" ? (
+          <ActivityTimeline
+            recordId={record.Id}
+            searchTerm={searchTerm}
+            onOpenRecord={handleOpenRecord}
+          />
+        ) : activeTab === "files" ? (
+          <FilesPanel recordId={record.Id} searchTerm={searchTerm} />
+        ) : activeTab === "json" ? (
+          <JsonRecordEditor
+            base={record}
+            value={editableRecord}
+            fieldsMap={fieldsMap}
+            onChange={handleJsonChange}
+            onErrorCountChange={setJsonErrorCount}
+          />
+        ) : activeTab === "compare" ? (
+          <RecordCompare
+            sObjectName={sObjectName}
+            record={editableRecord}
+            fieldsMap={fieldsMap}
+            searchTerm={searchTerm}
+            onCopyToCurrent={handleInputChange}
+            onOpenRecord={handleOpenRecord}
+          />
+        ) : activeTab === "journal" ? (
+          <ChangeJournal
+            record={record}
+            fieldsMap={fieldsMap}
+            searchTerm={searchTerm}
+            onBeforeRevert={confirmDiscard}
+            onReverted={() => {
+              setIsDirty(false);
+              handleGetRecord();
+            }}
+          />
         ) : filteredFields.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-12">
             <Icon
@@ -719,11 +1259,19 @@ export default function RecordEditor() {
                   Clear Search
                 </Button>
               )}
-              {showEditableOnly && (
+              {(showEditableOnly ||
+                hideEmpty ||
+                showChangedOnly ||
+                activeLayout) && (
                 <Button
                   variant="light"
                   size="sm"
-                  onPress={() => setShowEditableOnly(false)}
+                  onPress={() => {
+                    setShowEditableOnly(false);
+                    setHideEmpty(false);
+                    setShowChangedOnly(false);
+                    setActiveLayout(null);
+                  }}
                 >
                   Show All Fields
                 </Button>
@@ -770,11 +1318,30 @@ export default function RecordEditor() {
                           </button>
                         </PopoverTrigger>
                         <PopoverContent className="dark:bg-content2 dark:border-default-100">
-                          <FieldSchemaInfo fieldMeta={fieldMeta} />
+                          <FieldSchemaInfo
+                            fieldMeta={fieldMeta}
+                            sObjectName={sObjectName}
+                          />
                         </PopoverContent>
                       </Popover>
                     </div>
                     <div className="flex items-center gap-1">
+                      <Tooltip
+                        content={
+                          pinned.includes(key) ? "Unpin" : "Pin to top"
+                        }
+                      >
+                        <button
+                          onClick={() => togglePin(key)}
+                          className={
+                            pinned.includes(key)
+                              ? "text-primary"
+                              : "text-default-300 hover:text-primary"
+                          }
+                        >
+                          <Icon icon="lucide:pin" className="text-xs" />
+                        </button>
+                      </Tooltip>
                       {!fieldMeta.updateable && (
                         <Tooltip content="Read-only field">
                           <Icon
@@ -793,7 +1360,18 @@ export default function RecordEditor() {
                       )}
                     </div>
                   </div>
-                  {renderField(key, value, fieldMeta, handleInputChange)}
+                  {renderField(key, value, fieldMeta, handleInputChange, {
+                    referenceNames,
+                    onOpenReference: handleOpenRecord,
+                    picklistValues: fieldMeta.picklistValues?.length
+                      ? availablePicklistValues(
+                          fieldMeta,
+                          editableRecord,
+                          fieldsMap,
+                          recordTypeValues,
+                        )
+                      : undefined,
+                  })}
                 </div>
               );
             })}
@@ -801,6 +1379,30 @@ export default function RecordEditor() {
         )}
       </main>
 
+      <SavePreviewModal
+        isOpen={savePreview !== null}
+        onClose={() => setSavePreview(null)}
+        base={record}
+        mine={editableRecord}
+        theirs={savePreview?.theirs}
+        fieldsMap={fieldsMap}
+        onConfirm={handleSave}
+        isSaving={isLoading}
+      />
+
+      <TypedConfirmModal
+        isOpen={isDeleteOpen}
+        onClose={() => setIsDeleteOpen(false)}
+        onConfirm={handleDelete}
+        isLoading={isDeleting}
+        title={`Delete ${sObjectName}`}
+      >
+        <p>
+          <span className="font-mono">{record.Id}</span> will be moved to the
+          recycle bin. Cascade-deleted child records go with it.
+        </p>
+      </TypedConfirmModal>
+
       {/* Fixed Footer */}
       <Card className="fixed bottom-0 w-full rounded-none shadow-lg border-t border-x-0 border-b-0 z-10 dark:bg-content1 dark:border-default-100">
         <CardBody className="py-3 px-4">
@@ -835,8 +1437,9 @@ export default function RecordEditor() {
               )}
               <Button
                 color="primary"
-                onPress={handleSave}
-                isDisabled={!isDirty || isLoading}
+                onPress={handleReviewSave}
+                isDisabled={!isDirty || isLoading || jsonErrorCount > 0}
+                isLoading={isCheckingSave}
                 size="sm"
                 startContent={<Icon icon="lucide:save" />}
               >
@@ -0,0 +1,247 @@
+import React from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Spinner,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Selection,
+  Tooltip,
+  addToast,
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useSearchParams } from "react-router";
+import { client } from "../services/client";
+import ObjectPicker from "./components/object-picker";
+
+export default function RecycleBinPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sObjectName = searchParams.get("object") ?? "";
+  const [records, setRecords] = React.useState<any[]>([]);
+  const [nameField, setNameField] = React.useState<string | null>(null);
+  const [hasMore, setHasMore] = React.useState(false);
+  // Errors of the last restore, keyed by Id; failed rows stay in the bin
+  const [rowErrors, setRowErrors] = React.useState<Record<string, string[]>>(
+    {},
+  );
+  const [selected, setSelected] = React.useState<Selection>(new Set());
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const fetchDeleted = React.useCallback(async () => {
+    if (!sObjectName) return;
+    setIsLoading(true);
+    setError(null);
+    setSelected(new Set());
+    try {
+      const res = await client.listDeletedRecords(sObjectName);
+      setRecords(res.records);
+      setNameField(res.nameField);
+      setHasMore(res.hasMore);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load recycle bin";
+      setError(errorMessage);
+      setRecords([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sObjectName]);
+
+  React.useEffect(() => {
+    fetchDeleted();
+  }, [fetchDeleted]);
+
+  const selectedIds =
+    selected === "all"
+      ? records.map((r) => r.Id)
+      : Array.from(selected).map(String);
+
+  const handleRestore = React.useCallback(async () => {
+    if (selectedIds.length === 0) return;
+    setIsRestoring(true);
+    setRowErrors({});
+    try {
+      const results = await client.undeleteRecords(selectedIds);
+      const failed = results.filter((r) => !r.success);
+      setRowErrors(
+        Object.fromEntries(
+          failed.map((r) => [
+            r.id,
+            r.errors.length ? r.errors : ["Restore failed"],
+          ]),
+        ),
+      );
+      addToast({
+        title: failed.length ? "Partially restored" : "Restored",
+        description:
+          `${results.length - failed.length} of ${results.length} records restored` +
+          (failed.length ? "; hover the marked rows for the errors" : ""),
+        color: failed.length ? "warning" : "success",
+        icon: <Icon icon="lucide:undo-2" />,
+      });
+      fetchDeleted();
+    } catch (err) {
+      addToast({
+        title: "Error",
+        description:
+          err instanceof Error ? err.message : "Failed to restore records",
+        color: "danger",
+        icon: <Icon icon="lucide:alert-triangle" />,
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [selectedIds, fetchDeleted]);
+
+  return (
+    <div className="flex flex-col h-full">
+      <Card className="rounded-none shadow-none border-b border-t-0 border-x-0 bg-content1 dark:bg-content1 dark:border-default-100">
+        <CardBody className="py-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Icon icon="lucide:trash-2" className="text-primary text-xl" />
+              <div>
+                <h1 className="text-lg font-semibold">Recycle Bin</h1>
+                <p className="text-sm text-default-500">
+                  Browse and restore deleted records
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 items-center">
+              <ObjectPicker
+                value={sObjectName}
+                onChange={(name) => setSearchParams({ object: name })}
+              />
+              <Button
+                isIconOnly
+                variant="light"
+                onPress={fetchDeleted}
+                isDisabled={!sObjectName}
+                isLoading={isLoading}
+              >
+                <Icon icon="lucide:refresh-cw" className="text-default-500" />
+              </Button>
+              <Button
+                color="primary"
+                onPress={handleRestore}
+                isDisabled={selectedIds.length === 0}
+                isLoading={isRestoring}
+                startContent={<Icon icon="lucide:undo-2" />}
+              >
+                Restore
+                {selectedIds.length > 0 && ` (${selectedIds.length})`}
+              </Button>
+            </div>
+          </div>
+        </CardBody>
+      </Card>
+
+      <div className="p-4 flex-grow overflow-auto">
+        {error ? (
+          <div className="p-3 border border-danger-200 bg-danger-50 dark:bg-danger-900/20 dark:border-danger-700 rounded-medium text-danger text-sm">
+            <div className="flex items-start gap-2">
+              <Icon icon="lucide:alert-triangle" className="mt-0.5" />
+              <div>{error}</div>
+            </div>
+          </div>
+        ) : !sObjectName ? (
+          <div className="flex flex-col items-center justify-center p-12 border border-dashed border-default-200 rounded-large">
+            <Icon
+              icon="lucide:trash-2"
+              className="w-12 h-12 text-default-300 mb-4"
+            />
+            <p className="text-default-500 text-center">
+              Pick an object to list its deleted records
+            </p>
+          </div>
+        ) : isLoading ? (
+          <div className="flex flex-col items-center justify-center p-8">
+            <Spinner size="lg" color="primary" />
+            <p className="mt-4 text-default-500">Loading recycle bin...</p>
+          </div>
+        ) : (
+          <Card className="overflow-hidden">
+            <CardBody className="p-0">
+              <div className="flex items-center justify-between px-3 py-2 bg-content2 border-b">
+                <div className="text-sm">
+                  <span className="font-medium">{records.length}</span>
+                  <span className="text-default-500">
+                    {" "}
+                    deleted {sObjectName} row{records.length === 1 ? "" : "s"}
+                  </span>
+                </div>
+                {hasMore && (
+                  <Chip size="sm" variant="flat" color="warning">
+                    Showing the {records.length} most recent
+                  </Chip>
+                )}
+              </div>
+              <Table
+                removeWrapper
+                isHeaderSticky
+                aria-label="Deleted records"
+                selectionMode="multiple"
+                selectedKeys={selected}
+                onSelectionChange={setSelected}
+                classNames={{
+                  th: "bg-default-50 dark:bg-default-100/20 text-default-600 text-xs",
+                  td: "py-2 text-xs",
+                }}
+              >
+                <TableHeader>
+                  <TableColumn key="id">ID</TableColumn>
+                  <TableColumn key="name">{nameField ?? "NAME"}</TableColumn>
+                  <TableColumn key="deletedBy">DELETED BY</TableColumn>
+                  <TableColumn key="deletedAt">DELETED AT</TableColumn>
+                </TableHeader>
+                <TableBody emptyContent="Recycle bin is empty">
+                  {records.map((rec) => (
+                    <TableRow key={rec.Id}>
+                      <TableCell className="font-mono">
+                        <div className="flex items-center gap-1">
+                          {rec.Id}
+                          {rowErrors[rec.Id] && (
+                            <Tooltip
+                              color="danger"
+                              content={
+                                <div className="max-w-xs text-xs">
+                                  {rowErrors[rec.Id].map((e, i) => (
+                                    <div key={i}>{e}</div>
+                                  ))}
+                                </div>
+                              }
+                            >
+                              <Icon
+                                icon="lucide:alert-circle"
+                                className="text-danger"
+                              />
+                            </Tooltip>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {nameField ? String(rec[nameField] ?? "") : ""}
+                      </TableCell>
+                      <TableCell>{rec.LastModifiedBy?.Name ?? ""}</TableCell>
+                      <TableCell>
+                        {new Date(rec.LastModifiedDate).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
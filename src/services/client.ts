@@ -8,6 +8,167 @@ export interface SettingsPayload {
   maxRequestEntries: number;
 }
 
+export { RECORD_ID_PATTERN } from "./record-id";
+
+/**
+ * Explicit record to load instead of the one in the tab URL. Without an
+ * sObjectName the background resolves it from the Id's key prefix.
+ */
+export interface RecordTarget {
+  sObjectName?: string;
+  recordId: string;
+}
+
+export interface ReferenceName {
+  sObjectName: string | null;
+  name: string | null;
+}
+
+export interface LookupHit {
+  Id: string;
+  name: string;
+  sObjectName: string;
+}
+
+export interface RelatedListInfo {
+  relationshipName: string;
+  childSObject: string;
+  field: string;
+  count: number | null;
+}
+
+// One journaled save, as made through the record editor or a revert
+export interface RecordChangeEntry {
+  id: number;
+  sObjectName: string;
+  recordId: string;
+  savedAt: number;
+  before: Record<string, any>;
+  after: Record<string, any>;
+  revertOf?: number;
+}
+
+export interface FieldHistoryEntry {
+  Id: string;
+  Field: string;
+  DataType: string;
+  OldValue: any;
+  NewValue: any;
+  CreatedDate: string;
+  CreatedBy: { Name: string } | null;
+}
+
+export interface FieldHistory {
+  // false when the history sObject does not exist, i.e. tracking is off
+  enabled: boolean;
+  historyObject: string;
+  entries: FieldHistoryEntry[];
+}
+
+export interface RecordAccess {
+  userId: string;
+  // Only filled in for the session user
+  userName: string | null;
+  access: {
+    HasReadAccess: boolean;
+    HasEditAccess: boolean;
+    HasDeleteAccess: boolean;
+    HasTransferAccess: boolean;
+    HasAllAccess: boolean;
+    MaxAccessLevel: string;
+  } | null;
+}
+
+export interface RecordShare {
+  Id: string;
+  userOrGroupId: string;
+  userOrGroupName: string | null;
+  userOrGroupType: string | null;
+  accessLevel: string;
+  rowCause: string;
+  lastModifiedDate: string;
+}
+
+export interface RecordShares {
+  // false when the object has no share table
+  available: boolean;
+  shareObject: string;
+  shares: RecordShare[];
+}
+
+export interface ValidationRuleInfo {
+  id: string;
+  name: string;
+  active: boolean;
+  errorMessage: string;
+  description: string | null;
+  formula: string | null;
+  setupUrl: string;
+}
+
+// Tooling API extras for the field metadata popover
+export interface FieldDetails {
+  // Only custom fields have a CustomField row
+  customField: {
+    id: string;
+    description: string | null;
+    inlineHelpText: string | null;
+    formula: string | null;
+    defaultValue: string | null;
+  } | null;
+  validationRules: ValidationRuleInfo[];
+  setupUrl: string;
+}
+
+export interface RecordFile {
+  contentDocumentId: string;
+  versionId: string;
+  title: string;
+  extension: string | null;
+  size: number;
+  versionNumber: string;
+  owner: string | null;
+  lastModifiedDate: string;
+  shareType: string;
+  visibility: string;
+}
+
+export interface RecordAttachment {
+  id: string;
+  name: string;
+  contentType: string | null;
+  size: number;
+  owner: string | null;
+  lastModifiedDate: string;
+}
+
+export { MAX_FILE_BYTES } from "./limits";
+
+export interface ActivityItem {
+  id: string;
+  kind: "Task" | "Event" | "EmailMessage";
+  subject: string | null;
+  date: string | null;
+  status: string | null;
+  // Closed task, past event, or any email
+  isClosed: boolean;
+  isArchived: boolean;
+  // From address for emails
+  owner: string | null;
+  // To address for emails
+  who: string | null;
+  what: string | null;
+  // Priority, location or "All day"
+  detail: string | null;
+}
+
+/** Per-row outcome of a bulk save or delete. */
+export interface RecordSaveResult {
+  id: string;
+  success: boolean;
+  errors: string[];
+}
+
 export class ContentScriptClient {
   private async sendMessage<T>(message: { type: string; payload?: any }): Promise<T> {
     const resp = await chrome.runtime.sendMessage(message);
@@ -16,14 +177,148 @@ export class ContentScriptClient {
   }
 
   // ─────────────────────────  JSForce helpers  ─────────────────────────
-  getRecord() {
-    return this.sendMessage<any>({ type: "GET_RECORD" });
+  getRecord(target?: RecordTarget | null) {
+    return this.sendMessage<any>({ type: "GET_RECORD", payload: target ?? undefined });
   }
   updateRecord(sObjectName: string, recordData: any) {
     return this.sendMessage<any>({ type: "UPDATE_RECORD", payload: { sObjectName, recordData } });
   }
-  describeSObject(sObjectName: string) {
-    return this.sendMessage<any>({ type: "DESCRIBE_SOBJECT", payload: { sObjectName } });
+  getFieldHistory(sObjectName: string, recordId: string) {
+    return this.sendMessage<FieldHistory>({
+      type: "GET_FIELD_HISTORY",
+      payload: { sObjectName, recordId },
+    });
+  }
+  getRecordAccess(recordId: string, userId?: string) {
+    return this.sendMessage<RecordAccess>({
+      type: "GET_RECORD_ACCESS",
+      payload: { recordId, userId },
+    });
+  }
+  getRecordShares(sObjectName: string, recordId: string) {
+    return this.sendMessage<RecordShares>({
+      type: "GET_RECORD_SHARES",
+      payload: { sObjectName, recordId },
+    });
+  }
+  getFieldDetails(sObjectName: string, fieldName: string) {
+    return this.sendMessage<FieldDetails>({
+      type: "GET_FIELD_DETAILS",
+      payload: { sObjectName, fieldName },
+    });
+  }
+  listRecordFiles(recordId: string) {
+    return this.sendMessage<{
+      files: RecordFile[];
+      attachments: RecordAttachment[];
+    }>({ type: "LIST_RECORD_FILES", payload: { recordId } });
+  }
+  downloadFile(kind: "ContentVersion" | "Attachment", id: string) {
+    return this.sendMessage<{ base64: string; contentType: string }>({
+      type: "DOWNLOAD_FILE",
+      payload: { kind, id },
+    });
+  }
+  uploadFile(payload: {
+    contentDocumentId?: string;
+    recordId?: string;
+    fileName: string;
+    base64: string;
+    reason?: string;
+  }) {
+    return this.sendMessage<{ id: string; success: boolean }>({
+      type: "UPLOAD_FILE",
+      payload,
+    });
+  }
+  listActivities(recordId: string) {
+    return this.sendMessage<ActivityItem[]>({
+      type: "LIST_ACTIVITIES",
+      payload: { recordId },
+    });
+  }
+  closeTask(taskId: string) {
+    return this.sendMessage<any>({ type: "CLOSE_TASK", payload: { taskId } });
+  }
+  /** Bulk update through sObject Collections; one result per record. */
+  saveRecords(sObjectName: string, records: { Id: string; [field: string]: any }[]) {
+    return this.sendMessage<RecordSaveResult[]>({
+      type: "SAVE_RECORDS",
+      payload: { sObjectName, records },
+    });
+  }
+  listRecordChanges(recordId: string) {
+    return this.sendMessage<RecordChangeEntry[]>({
+      type: "LIST_RECORD_CHANGES",
+      payload: { recordId },
+    });
+  }
+  revertRecordChange(id: number) {
+    return this.sendMessage<any>({ type: "REVERT_RECORD_CHANGE", payload: { id } });
+  }
+  createRecord(sObjectName: string, recordData: any) {
+    return this.sendMessage<{ id: string; success: boolean }>({
+      type: "CREATE_RECORD",
+      payload: { sObjectName, recordData },
+    });
+  }
+  deleteRecord(sObjectName: string, recordId: string) {
+    return this.sendMessage<any>({ type: "DELETE_RECORD", payload: { sObjectName, recordId } });
+  }
+  /** All fields of the given records, e.g. for a backup before deleting. */
+  retrieveRecords(sObjectName: string, recordIds: string[]) {
+    return this.sendMessage<any[]>({
+      type: "RETRIEVE_RECORDS",
+      payload: { sObjectName, recordIds },
+    });
+  }
+  /** Bulk delete through sObject Collections; one result per Id. */
+  deleteRecords(recordIds: string[]) {
+    return this.sendMessage<RecordSaveResult[]>({
+      type: "DELETE_RECORDS",
+      payload: { recordIds },
+    });
+  }
+  undeleteRecords(recordIds: string[]) {
+    return this.sendMessage<RecordSaveResult[]>({
+      type: "UNDELETE_RECORD",
+      payload: { recordIds },
+    });
+  }
+  listDeletedRecords(sObjectName: string) {
+    return this.sendMessage<{
+      nameField: string | null;
+      records: any[];
+      // Older deleted rows exist past the ones returned
+      hasMore: boolean;
+    }>({
+      type: "LIST_DELETED_RECORDS",
+      payload: { sObjectName },
+    });
+  }
+  getReferenceNames(ids: string[]) {
+    return this.sendMessage<Record<string, ReferenceName>>({ type: "GET_REFERENCE_NAMES", payload: { ids } });
+  }
+  searchLookup(term: string, sObjectNames: string[]) {
+    return this.sendMessage<LookupHit[]>({ type: "SEARCH_LOOKUP", payload: { term, sObjectNames } });
+  }
+  getPicklistValues(sObjectName: string, recordTypeId: string) {
+    return this.sendMessage<Record<string, string[]>>({
+      type: "GET_PICKLIST_VALUES",
+      payload: { sObjectName, recordTypeId },
+    });
+  }
+  describeSObject(sObjectName: string, tooling = false) {
+    return this.sendMessage<any>({ type: "DESCRIBE_SOBJECT", payload: { sObjectName, tooling } });
+  }
+  getRelatedCounts(sObjectName: string, recordId: string) {
+    return this.sendMessage<RelatedListInfo[]>({ type: "GET_RELATED_COUNTS", payload: { sObjectName, recordId } });
+  }
+  getRelatedRecords(sObjectName: string, field: string, parentId: string, limit: number, offset: number) {
+    return this.sendMessage<{ nameField: string | null; records: any[] }>({
+      type: "GET_RELATED_RECORDS",
+      payload: { sObjectName, field, parentId, limit, offset },
+    });
   }
 
   loadGlobalObjects() {
@@ -32,9 +327,29 @@ export class ContentScriptClient {
   searchGlobalObjects(prefix: string) {
     return this.sendMessage<any[]>({ type: "SEARCH_GLOBAL_OBJECTS", payload: { prefix } });
   }
+  searchToolingObjects(prefix: string) {
+    return this.sendMessage<{ name: string; label: string }[]>({
+      type: "SEARCH_TOOLING_OBJECTS",
+      payload: { prefix },
+    });
+  }
 
-  runSoql(query: string) {
-    return this.sendMessage<any>({ type: "RUN_SOQL", payload: { query } });
+  /** Pass tooling to query the Tooling API instead of the data API. */
+  runSoql(query: string, tooling = false) {
+    return this.sendMessage<any>({ type: "RUN_SOQL", payload: { query, tooling } });
+  }
+  runSosl(search: string) {
+    return this.sendMessage<{ searchRecords: any[] }>({
+      type: "RUN_SOSL",
+      payload: { search },
+    });
+  }
+  /** Next batch of a query, from the previous batch's nextRecordsUrl. */
+  queryMore(nextRecordsUrl: string, tooling = false) {
+    return this.sendMessage<any>({
+      type: "QUERY_MORE",
+      payload: { nextRecordsUrl, tooling },
+    });
   }
 
   // LWC debug helpers
@@ -0,0 +1,8 @@
+// Limits the background enforces and the pages explain to the user; both
+// import them from here so the numbers cannot drift apart.
+
+// Most recent history rows returned for one record
+export const FIELD_HISTORY_LIMIT = 500;
+
+// Binary bodies travel base64-encoded through runtime messages
+export const MAX_FILE_BYTES = 25 * 1024 * 1024;
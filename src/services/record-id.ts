@@ -0,0 +1,7 @@
+// Shared by the background and the pages so both accept the same Ids.
+
+// 15- or 18-character Salesforce Id
+export const RECORD_ID_PATTERN = /^[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?$/;
+
+export const isRecordId = (id: unknown): id is string =>
+  typeof id === "string" && RECORD_ID_PATTERN.test(id);
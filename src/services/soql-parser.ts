@@ -0,0 +1,682 @@
+// SOQL tokenizer and recursive-descent parser. Every node keeps the
+// character range it came from so callers can map problems back to the
+// editor.
+
+export interface Span {
+  from: number;
+  to: number;
+}
+
+export type TokenType =
+  | "ident"
+  | "string"
+  | "number"
+  | "date"
+  | "dateLiteral"
+  | "bind"
+  | "op"
+  | "punct"
+  | "eof";
+
+export interface Token extends Span {
+  type: TokenType;
+  value: string;
+}
+
+export interface FieldPath extends Span {
+  kind: "field";
+  // Owner.Profile.Name → ["Owner", "Profile", "Name"]
+  path: string[];
+  segments: Span[];
+}
+
+export interface FunctionCall extends Span {
+  kind: "function";
+  name: string;
+  args: (FieldPath | FunctionCall | Value)[];
+  alias?: string;
+}
+
+export interface SubQuery extends Span {
+  kind: "subquery";
+  query: SoqlQuery;
+}
+
+export interface TypeOf extends Span {
+  kind: "typeof";
+  field: string;
+}
+
+export type SelectItem = FieldPath | FunctionCall | SubQuery | TypeOf;
+
+export type Value = Span &
+  (
+    | { kind: "string"; value: string }
+    | { kind: "number"; value: number }
+    | { kind: "boolean"; value: boolean }
+    | { kind: "null" }
+    | { kind: "date"; value: string; hasTime: boolean }
+    | { kind: "dateLiteral"; value: string }
+    | { kind: "currency"; value: string }
+    | { kind: "bind"; name: string }
+    | { kind: "list"; items: Value[] }
+    | { kind: "subquery"; query: SoqlQuery }
+  );
+
+export interface Comparison extends Span {
+  kind: "comparison";
+  field: FieldPath | FunctionCall;
+  // Upper-cased: =, !=, <, LIKE, IN, NOT IN, INCLUDES …
+  operator: string;
+  value: Value;
+}
+
+export type Condition =
+  | Comparison
+  | (Span & { kind: "and" | "or"; left: Condition; right: Condition })
+  | (Span & { kind: "not"; expr: Condition });
+
+export interface OrderItem extends Span {
+  field: FieldPath | FunctionCall;
+  direction: "ASC" | "DESC";
+  nulls?: "FIRST" | "LAST";
+}
+
+export interface SoqlQuery extends Span {
+  select: SelectItem[];
+  // Object name, or the child relationship name inside a subquery
+  sObject: Span & { name: string; alias?: string };
+  where?: Condition;
+  groupBy?: (FieldPath | FunctionCall)[];
+  having?: Condition;
+  orderBy?: OrderItem[];
+  limit?: Span & { value: number };
+  offset?: Span & { value: number };
+}
+
+export interface SoqlError extends Span {
+  message: string;
+}
+
+export interface ParseResult {
+  query: SoqlQuery | null;
+  error: SoqlError | null;
+}
+
+const KEYWORDS = new Set([
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "WITH",
+  "GROUP",
+  "BY",
+  "HAVING",
+  "ORDER",
+  "LIMIT",
+  "OFFSET",
+  "FOR",
+  "UPDATE",
+  "USING",
+  "AND",
+  "OR",
+  "NOT",
+  "IN",
+  "LIKE",
+  "INCLUDES",
+  "EXCLUDES",
+  "ASC",
+  "DESC",
+  "NULLS",
+  "TYPEOF",
+  "WHEN",
+  "THEN",
+  "ELSE",
+  "END",
+  "TRUE",
+  "FALSE",
+  "NULL",
+]);
+
+// Clauses that end a WITH … section
+const CLAUSE_KEYWORDS = new Set([
+  "GROUP",
+  "ORDER",
+  "LIMIT",
+  "OFFSET",
+  "FOR",
+  "UPDATE",
+]);
+
+const DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?/;
+const NAMED_DATE_PATTERN = /^(TODAY|YESTERDAY|TOMORROW|(LAST|THIS|NEXT)_\w+)$/i;
+const CURRENCY_PATTERN = /^[A-Z]{3}\d+(\.\d+)?$/;
+
+class SoqlSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly span: Span,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Split text into tokens, skipping whitespace and block comments. SOQL has
+ * no comments; the editor allows block comments only and strips them before
+ * sending (see stripComments).
+ * Never throws: on bad input the error is returned next to the tokens read
+ * so far, which keeps half-typed queries usable for completion.
+ */
+export function tokenize(text: string) {
+  const tokens: Token[] = [];
+  const comments: Span[] = [];
+  let error: SoqlError | null = null;
+  let i = 0;
+  const push = (type: TokenType, from: number, to: number) =>
+    tokens.push({ type, value: text.slice(from, to), from, to });
+
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (rest.startsWith("/*")) {
+      const end = text.indexOf("*/", i + 2);
+      const to = end < 0 ? text.length : end + 2;
+      comments.push({ from: i, to });
+      i = to;
+    } else if (ch === "'") {
+      let j = i + 1;
+      while (j < text.length && text[j] !== "'") j += text[j] === "\\" ? 2 : 1;
+      if (j >= text.length) {
+        error = { message: "Unterminated string", from: i, to: text.length };
+        break;
+      }
+      push("string", i, j + 1);
+      i = j + 1;
+    } else if (/\d/.test(ch)) {
+      const date = DATE_PATTERN.exec(rest);
+      if (date) {
+        push("date", i, i + date[0].length);
+        i += date[0].length;
+      } else {
+        const num = /^\d+(\.\d+)?/.exec(rest)!;
+        push("number", i, i + num[0].length);
+        i += num[0].length;
+      }
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest)![0];
+      // LAST_N_DAYS:30 and friends
+      const n = /^:\d+/.exec(text.slice(i + word.length));
+      const to = i + word.length + (n ? n[0].length : 0);
+      push(n ? "dateLiteral" : "ident", i, to);
+      i = to;
+    } else if (ch === ":" && /[A-Za-z_]/.test(text[i + 1] ?? "")) {
+      const word = /^:[A-Za-z_][A-Za-z0-9_.]*/.exec(rest)![0];
+      push("bind", i, i + word.length);
+      i += word.length;
+    } else if (/^(!=|<>|<=|>=)/.test(rest)) {
+      push("op", i, i + 2);
+      i += 2;
+    } else if ("=<>".includes(ch)) {
+      push("op", i, i + 1);
+      i++;
+    } else if ("(),.-+".includes(ch)) {
+      push("punct", i, i + 1);
+      i++;
+    } else {
+      error = { message: `Unexpected character ${ch}`, from: i, to: i + 1 };
+      break;
+    }
+  }
+  tokens.push({ type: "eof", value: "", from: text.length, to: text.length });
+  return { tokens, comments, error };
+}
+
+/** The query without comments, which Salesforce does not accept. */
+export function stripComments(text: string) {
+  const { comments } = tokenize(text);
+  let out = text;
+  for (const c of [...comments].reverse()) {
+    out = out.slice(0, c.from) + " " + out.slice(c.to);
+  }
+  return out;
+}
+
+export interface QueryScope extends Span {
+  // FROM name, null until typed
+  sObjectName: string | null;
+  alias?: string;
+  // Select-list subquery, whose FROM names a child relationship
+  isChildRelationship: boolean;
+}
+
+/**
+ * The SELECT scopes enclosing pos, outermost first. Works on half-typed
+ * text: unclosed subqueries run to the end of the document.
+ */
+export function scopesAt(text: string, pos: number): QueryScope[] {
+  const { tokens } = tokenize(text);
+  const root: QueryScope = {
+    from: 0,
+    to: text.length,
+    sObjectName: null,
+    isChildRelationship: false,
+  };
+  const scopes = [root];
+  // One entry per open paren; null for parens that are not subqueries
+  const parens: (QueryScope | null)[] = [];
+  const current = () =>
+    [...parens].reverse().find((s) => s !== null) ?? root;
+
+  tokens.forEach((t, i) => {
+    const upper = t.type === "ident" ? t.value.toUpperCase() : "";
+    if (t.value === "(" && t.type === "punct") {
+      const isQuery = tokens[i + 1]?.value.toUpperCase() === "SELECT";
+      const scope: QueryScope | null = isQuery
+        ? {
+            from: t.to,
+            to: text.length,
+            sObjectName: null,
+            isChildRelationship: tokens[i - 1]?.value.toUpperCase() !== "IN",
+          }
+        : null;
+      if (scope) scopes.push(scope);
+      parens.push(scope);
+    } else if (t.value === ")" && t.type === "punct") {
+      const scope = parens.pop();
+      if (scope) scope.to = t.from;
+    } else if (upper === "FROM" && tokens[i + 1]?.type === "ident") {
+      const scope = current();
+      if (scope.sObjectName === null) {
+        scope.sObjectName = tokens[i + 1].value;
+        const alias = tokens[i + 2];
+        if (
+          alias?.type === "ident" &&
+          !KEYWORDS.has(alias.value.toUpperCase())
+        )
+          scope.alias = alias.value;
+      }
+    }
+  });
+  return scopes.filter((s) => s.from <= pos && pos <= s.to);
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(offset = 0) {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next() {
+    const t = this.peek();
+    if (t.type !== "eof") this.pos++;
+    return t;
+  }
+
+  private prev() {
+    return this.tokens[Math.max(this.pos - 1, 0)];
+  }
+
+  private fail(message: string, t: Token = this.peek()): never {
+    throw new SoqlSyntaxError(message, { from: t.from, to: Math.max(t.to, t.from + 1) });
+  }
+
+  private isKw(word: string, offset = 0) {
+    const t = this.peek(offset);
+    return t.type === "ident" && t.value.toUpperCase() === word;
+  }
+
+  private acceptKw(word: string) {
+    if (!this.isKw(word)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectKw(word: string) {
+    if (!this.acceptKw(word)) this.fail(`Expected ${word}`);
+    return this.prev();
+  }
+
+  private isPunct(ch: string) {
+    const t = this.peek();
+    return t.type === "punct" && t.value === ch;
+  }
+
+  private acceptPunct(ch: string) {
+    if (!this.isPunct(ch)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectPunct(ch: string) {
+    if (!this.acceptPunct(ch)) this.fail(`Expected ${ch}`);
+  }
+
+  private isKeyword(t: Token) {
+    return t.type === "ident" && KEYWORDS.has(t.value.toUpperCase());
+  }
+
+  private name(what: string) {
+    const t = this.peek();
+    if (t.type !== "ident" || this.isKeyword(t))
+      this.fail(t.type === "eof" ? `Expected ${what}` : `Unexpected ${t.value}`);
+    return this.next();
+  }
+
+  parseQuery(isSub: boolean): SoqlQuery {
+    const start = this.expectKw("SELECT");
+    const select: SelectItem[] = [];
+    do {
+      select.push(this.selectItem());
+    } while (this.acceptPunct(","));
+
+    this.expectKw("FROM");
+    const obj = this.name("an object name");
+    const query: SoqlQuery = {
+      select,
+      sObject: { name: obj.value, from: obj.from, to: obj.to },
+      from: start.from,
+      to: obj.to,
+    };
+    if (this.peek().type === "ident" && !this.isKeyword(this.peek())) {
+      query.sObject.alias = this.next().value;
+    }
+
+    if (this.acceptKw("USING")) {
+      this.expectKw("SCOPE");
+      this.name("a scope");
+    }
+    if (this.acceptKw("WHERE")) query.where = this.condition();
+    if (this.acceptKw("WITH")) this.skipWith();
+    if (this.isKw("GROUP")) {
+      this.next();
+      this.expectKw("BY");
+      const grouped = this.acceptKw("ROLLUP") || this.acceptKw("CUBE");
+      if (grouped) this.expectPunct("(");
+      query.groupBy = [];
+      do {
+        query.groupBy.push(this.fieldExpr());
+      } while (this.acceptPunct(","));
+      if (grouped) this.expectPunct(")");
+    }
+    if (this.acceptKw("HAVING")) query.having = this.condition();
+    if (this.isKw("ORDER")) {
+      this.next();
+      this.expectKw("BY");
+      query.orderBy = [];
+      do {
+        query.orderBy.push(this.orderItem());
+      } while (this.acceptPunct(","));
+    }
+    if (this.acceptKw("LIMIT")) query.limit = this.integer();
+    if (this.acceptKw("OFFSET")) query.offset = this.integer();
+    while (this.acceptKw("FOR")) {
+      do {
+        this.name("VIEW, REFERENCE or UPDATE");
+      } while (this.acceptPunct(","));
+    }
+    if (this.acceptKw("UPDATE")) this.name("TRACKING or VIEWSTAT");
+
+    const end = this.peek();
+    if (isSub ? !this.isPunct(")") : end.type !== "eof")
+      this.fail(`Unexpected ${end.value}`);
+    query.to = this.prev().to;
+    return query;
+  }
+
+  private selectItem(): SelectItem {
+    const t = this.peek();
+    if (this.acceptPunct("(")) {
+      const query = this.parseQuery(true);
+      this.expectPunct(")");
+      return { kind: "subquery", query, from: t.from, to: this.prev().to };
+    }
+    if (this.acceptKw("TYPEOF")) {
+      const field = this.name("a polymorphic field").value;
+      while (!this.acceptKw("END")) {
+        if (this.peek().type === "eof") this.fail("Expected END");
+        this.next();
+      }
+      return { kind: "typeof", field, from: t.from, to: this.prev().to };
+    }
+    const expr = this.fieldExpr();
+    if (
+      expr.kind === "function" &&
+      this.peek().type === "ident" &&
+      !this.isKeyword(this.peek())
+    ) {
+      expr.alias = this.next().value;
+      expr.to = this.prev().to;
+    }
+    return expr;
+  }
+
+  private fieldExpr(): FieldPath | FunctionCall {
+    const first = this.name("a field");
+    if (this.acceptPunct("(")) {
+      const args: FunctionCall["args"] = [];
+      if (!this.isPunct(")")) {
+        do {
+          const t = this.peek();
+          args.push(
+            t.type === "ident" && !this.isKeyword(t)
+              ? this.fieldExpr()
+              : this.value(),
+          );
+        } while (this.acceptPunct(","));
+      }
+      this.expectPunct(")");
+      return {
+        kind: "function",
+        name: first.value,
+        args,
+        from: first.from,
+        to: this.prev().to,
+      };
+    }
+    const path = [first.value];
+    const segments: Span[] = [{ from: first.from, to: first.to }];
+    while (this.acceptPunct(".")) {
+      const seg = this.name("a field after the dot");
+      path.push(seg.value);
+      segments.push({ from: seg.from, to: seg.to });
+    }
+    return { kind: "field", path, segments, from: first.from, to: this.prev().to };
+  }
+
+  private orderItem(): OrderItem {
+    const field = this.fieldExpr();
+    const item: OrderItem = {
+      field,
+      direction: "ASC",
+      from: field.from,
+      to: field.to,
+    };
+    if (this.acceptKw("ASC")) item.direction = "ASC";
+    else if (this.acceptKw("DESC")) item.direction = "DESC";
+    if (this.acceptKw("NULLS")) {
+      if (this.acceptKw("FIRST")) item.nulls = "FIRST";
+      else if (this.acceptKw("LAST")) item.nulls = "LAST";
+      else this.fail("Expected FIRST or LAST");
+    }
+    item.to = this.prev().to;
+    return item;
+  }
+
+  private integer() {
+    const t = this.peek();
+    if (t.type !== "number" || t.value.includes("."))
+      this.fail("Expected a whole number");
+    this.next();
+    return { value: Number(t.value), from: t.from, to: t.to };
+  }
+
+  // WITH SECURITY_ENFORCED, WITH DATA CATEGORY … – kept opaque
+  private skipWith() {
+    let depth = 0;
+    for (;;) {
+      const t = this.peek();
+      if (t.type === "eof") return;
+      if (t.value === "(") depth++;
+      if (t.value === ")") {
+        if (depth === 0) return;
+        depth--;
+      }
+      if (
+        depth === 0 &&
+        t.type === "ident" &&
+        CLAUSE_KEYWORDS.has(t.value.toUpperCase())
+      )
+        return;
+      this.next();
+    }
+  }
+
+  private condition(): Condition {
+    let left = this.andCondition();
+    while (this.acceptKw("OR")) {
+      const right = this.andCondition();
+      left = { kind: "or", left, right, from: left.from, to: right.to };
+    }
+    return left;
+  }
+
+  private andCondition(): Condition {
+    let left = this.notCondition();
+    while (this.acceptKw("AND")) {
+      const right = this.notCondition();
+      left = { kind: "and", left, right, from: left.from, to: right.to };
+    }
+    return left;
+  }
+
+  private notCondition(): Condition {
+    const t = this.peek();
+    if (this.acceptKw("NOT")) {
+      const expr = this.notCondition();
+      return { kind: "not", expr, from: t.from, to: expr.to };
+    }
+    if (this.acceptPunct("(")) {
+      const inner = this.condition();
+      this.expectPunct(")");
+      return { ...inner, from: t.from, to: this.prev().to };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Comparison {
+    const field = this.fieldExpr();
+    const t = this.peek();
+    let operator: string;
+    if (t.type === "op") {
+      operator = this.next().value;
+    } else if (this.isKw("NOT") && this.isKw("IN", 1)) {
+      this.pos += 2;
+      operator = "NOT IN";
+    } else if (
+      ["LIKE", "IN", "INCLUDES", "EXCLUDES"].some((k) => this.acceptKw(k))
+    ) {
+      operator = this.prev().value.toUpperCase();
+    } else {
+      this.fail(
+        t.type === "eof"
+          ? `Expected an operator after ${field.kind === "field" ? field.path.join(".") : field.name}`
+          : `Unexpected ${t.value}; expected an operator`,
+      );
+    }
+    const value = ["IN", "NOT IN", "INCLUDES", "EXCLUDES"].includes(operator)
+      ? this.listValue()
+      : this.value();
+    return {
+      kind: "comparison",
+      field,
+      operator,
+      value,
+      from: field.from,
+      to: value.to,
+    };
+  }
+
+  private listValue(): Value {
+    const open = this.peek();
+    if (open.type === "bind") return this.value();
+    this.expectPunct("(");
+    if (this.isKw("SELECT")) {
+      const query = this.parseQuery(true);
+      this.expectPunct(")");
+      return { kind: "subquery", query, from: open.from, to: this.prev().to };
+    }
+    const items: Value[] = [];
+    do {
+      items.push(this.value());
+    } while (this.acceptPunct(","));
+    this.expectPunct(")");
+    return { kind: "list", items, from: open.from, to: this.prev().to };
+  }
+
+  private value(): Value {
+    const t = this.next();
+    const span = { from: t.from, to: t.to };
+    switch (t.type) {
+      case "string":
+        return { kind: "string", value: t.value.slice(1, -1), ...span };
+      case "number":
+        return { kind: "number", value: Number(t.value), ...span };
+      case "date":
+        return {
+          kind: "date",
+          value: t.value,
+          hasTime: t.value.includes("T"),
+          ...span,
+        };
+      case "dateLiteral":
+        return { kind: "dateLiteral", value: t.value, ...span };
+      case "bind":
+        return { kind: "bind", name: t.value.slice(1), ...span };
+      case "punct":
+        if (t.value === "-" || t.value === "+") {
+          const n = this.next();
+          if (n.type !== "number") this.fail("Expected a number", n);
+          const sign = t.value === "-" ? -1 : 1;
+          return {
+            kind: "number",
+            value: sign * Number(n.value),
+            from: t.from,
+            to: n.to,
+          };
+        }
+        break;
+      case "ident": {
+        const word = t.value.toUpperCase();
+        if (word === "TRUE" || word === "FALSE")
+          return { kind: "boolean", value: word === "TRUE", ...span };
+        if (word === "NULL") return { kind: "null", ...span };
+        if (NAMED_DATE_PATTERN.test(t.value))
+          return { kind: "dateLiteral", value: t.value, ...span };
+        if (CURRENCY_PATTERN.test(t.value))
+          return { kind: "currency", value: t.value, ...span };
+        this.fail(`Unexpected ${t.value}; text values need single quotes`, t);
+      }
+    }
+    this.fail(t.type === "eof" ? "Expected a value" : `Unexpected ${t.value}`, t);
+  }
+}
+
+/** Parse a whole query; the first syntax error stops the parse. */
+export function parseSoql(text: string): ParseResult {
+  const { tokens, error } = tokenize(text);
+  if (error) return { query: null, error };
+  try {
+    return { query: new Parser(tokens).parseQuery(false), error: null };
+  } catch (e) {
+    if (e instanceof SoqlSyntaxError) {
+      return { query: null, error: { message: e.message, ...e.span } };
+    }
+    throw e;
+  }
+}